@@ -1,27 +1,101 @@
-import type { OperatorParams, LFOParams, PitchEnvelopeParams, FMAlgorithm } from './types';
+import type { OperatorParams, LFOParams, PitchEnvelopeParams, FMAlgorithm, ChokeMode, ModulationMatrix } from './types';
+import { holdValueAtTime } from './automation';
+import { getAlgorithmRouting } from './fmRouting';
+import { getFeedbackHarmonics } from './feedback';
+import { getWaveFunction } from './waveforms';
+import { FM_PROCESSOR_NAME } from './fmVoiceEngine';
+import type { FMProcessorMessage } from './fmVoiceEngine';
+import fmProcessorUrl from './fmProcessor.ts?worker&url';
+
+export type { OperatorParams, LFOParams, PitchEnvelopeParams, FMAlgorithm, ChokeMode, ModulationMatrix } from './types';
+
+// All audio nodes belonging to one triggered note
+interface Voice {
+  operators: OscillatorNode[];
+  gains: GainNode[];
+  envelopes: GainNode[];
+  modGains: GainNode[];
+  modDelays: DelayNode[];
+  lfo: OscillatorNode | null;
+  lfoGain: GainNode | null;
+  params: OperatorParams[];
+  startTime: number;
+  stopTime: number; // When the oscillators are scheduled to stop
+  released: boolean;
+}
+
+const QUICK_FADE_TIME = 0.001; // 1ms very quick fade when a note is cut
+export const MAX_VOICES = 8;
+
+// How notes are synthesized: a Web Audio node graph built per note, or per-sample FM in an AudioWorklet
+export type FMEngine = 'nodes' | 'worklet';
+
+const workletModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+// Operator waveforms of the node-graph engine per context, keyed by waveform, custom harmonics and
+// feedback amount in hundredths (the engine's approximation of feedback, see getFeedbackHarmonics). Emptied when full, as editing custom harmonics keeps adding waves.
+const operatorWaves = new WeakMap<BaseAudioContext, Map<string, PeriodicWave>>();
+const MAX_CACHED_WAVES = 128;
+
+function getOperatorWave(audioContext: BaseAudioContext, params: OperatorParams): PeriodicWave {
+  let waves = operatorWaves.get(audioContext);
+  if (!waves) {
+    waves = new Map();
+    operatorWaves.set(audioContext, waves);
+  }
+  const amount = Math.round(params.feedbackAmount * 100);
+  const harmonics = params.waveform === 'custom' ? params.harmonics : [];
+  const key = `${params.waveform}:${harmonics.join(',')}:${amount}`;
+  let wave = waves.get(key);
+  if (!wave) {
+    const { real, imag } = getFeedbackHarmonics(amount / 100, undefined, getWaveFunction(params.waveform, harmonics));
+    wave = audioContext.createPeriodicWave(real, imag, { disableNormalization: true });
+    if (waves.size >= MAX_CACHED_WAVES) waves.clear();
+    waves.set(key, wave);
+  }
+  return wave;
+}
 
-export type { OperatorParams, LFOParams, PitchEnvelopeParams, FMAlgorithm } from './types';
+// Automate a value that follows the pitch envelope: (1 + depth) times the value at the start,
+// (1 + depth / 2) times after the attack and the value itself after the decay
+function applyPitchEnvelope(param: AudioParam, value: number, envelope: PitchEnvelopeParams | undefined, time: number) {
+  param.value = value;
+  if (!envelope || envelope.depth <= 0) return;
+  param.setValueAtTime(value * (1 + envelope.depth), time);
+  param.linearRampToValueAtTime(value * (1 + envelope.depth * 0.5), time + envelope.attack);
+  param.linearRampToValueAtTime(value, time + envelope.attack + envelope.decay);
+}
+
+// Load the worklet engine's processor into a context (once per context); needed before creating 'worklet' synths
+export function loadFMWorklet(audioContext: BaseAudioContext): Promise<void> {
+  let loading = workletModules.get(audioContext);
+  if (!loading) {
+    loading = audioContext.audioWorklet.addModule(fmProcessorUrl);
+    workletModules.set(audioContext, loading);
+  }
+  return loading;
+}
 
 export class FMSynth {
-  private audioContext: AudioContext;
-  private operators: OscillatorNode[] = [];
-  private gains: GainNode[] = [];
-  private envelopes: GainNode[] = [];
-  private feedbackNodes: DelayNode[] = [];
-  private feedbackGains: GainNode[] = [];
-  private lfo: OscillatorNode | null = null;
-  private lfoGain: GainNode | null = null;
+  private audioContext: BaseAudioContext;
+  private destination: AudioNode;
+  private voices: Voice[] = [];
+  private chokeMode: ChokeMode = 'mono';
+  private voiceCount: number = 1;
+  private modulationMatrix: ModulationMatrix | undefined; // Routing of the 'custom' algorithm
   private masterGain: GainNode;
   private compressor: DynamicsCompressorNode;
   private limiter: DynamicsCompressorNode;
-  private isPlaying: boolean = false;
-  private releaseScheduled: boolean = false;
-  private currentParams: OperatorParams[] = [];
-  private cleanupTimer: number | null = null;
-  private autoStopTimer: number | null = null;
+  private worklet: AudioWorkletNode | null = null; // Set while the worklet engine is selected
+  private syncId = 0;
 
-  constructor(audioContext: AudioContext) {
+  constructor(
+    audioContext: BaseAudioContext,
+    destination: AudioNode = audioContext.destination,
+    engine: FMEngine = 'nodes'
+  ) {
     this.audioContext = audioContext;
+    this.destination = destination;
 
     // Master gain with lower volume to prevent clipping
     this.masterGain = audioContext.createGain();
@@ -43,10 +117,53 @@ export class FMSynth {
     this.limiter.attack.value = 0.001;
     this.limiter.release.value = 0.01;
 
-    // Signal chain: masterGain -> compressor -> limiter -> destination
+    // Signal chain: masterGain -> compressor -> limiter -> destination (speakers or an offline render target)
     this.masterGain.connect(this.compressor);
     this.compressor.connect(this.limiter);
-    this.limiter.connect(audioContext.destination);
+    this.limiter.connect(this.destination);
+
+    this.setEngine(engine);
+  }
+
+  getEngine(): FMEngine {
+    return this.worklet ? 'worklet' : 'nodes';
+  }
+
+  // Switch engines; notes of the previous engine are cut. The worklet must be loaded (loadFMWorklet) first.
+  setEngine(engine: FMEngine) {
+    if (engine === this.getEngine()) return;
+    this.choke();
+
+    if (engine === 'worklet') {
+      this.worklet = new AudioWorkletNode(this.audioContext, FM_PROCESSOR_NAME, {
+        numberOfInputs: 0,
+        numberOfOutputs: 1,
+        outputChannelCount: [1],
+      });
+      this.worklet.connect(this.masterGain);
+    } else if (this.worklet) {
+      this.disposeWorklet(this.worklet);
+      this.worklet = null;
+    }
+  }
+
+  // Resolves once the worklet has received every note sent so far (offline renders wait for this before starting)
+  flush(): Promise<void> {
+    const worklet = this.worklet;
+    if (!worklet) return Promise.resolve();
+
+    const id = ++this.syncId;
+    return new Promise(resolve => {
+      const onMessage = (event: MessageEvent<{ type: string; id: number }>) => {
+        if (event.data.type === 'synced' && event.data.id === id) {
+          worklet.port.removeEventListener('message', onMessage);
+          resolve();
+        }
+      };
+      worklet.port.addEventListener('message', onMessage);
+      worklet.port.start();
+      this.post({ type: 'sync', id });
+    });
   }
 
   connectAnalyzer(analyzer: AnalyserNode) {
@@ -56,35 +173,60 @@ export class FMSynth {
 
   connectSidechainGain(gain: GainNode) {
     // Disconnect limiter from destination
-    this.limiter.disconnect(this.audioContext.destination);
+    this.limiter.disconnect(this.destination);
     // Connect through ducking gain node: limiter -> gain -> destination
     this.limiter.connect(gain);
-    gain.connect(this.audioContext.destination);
+    gain.connect(this.destination);
   }
 
-  noteOff() {
-    if (!this.isPlaying || this.releaseScheduled) return;
+  // Configure voice allocation: mono-choke, or polyphonic with up to `voiceCount` overlapping notes
+  setPolyphony(voiceCount: number, chokeMode: ChokeMode) {
+    this.voiceCount = Math.max(1, Math.min(MAX_VOICES, Math.round(voiceCount)));
+    this.chokeMode = chokeMode;
+  }
 
-    this.releaseScheduled = true;
-    const currentTime = this.audioContext.currentTime;
+  // Set the routing played by the 'custom' algorithm
+  setModulationMatrix(matrix: ModulationMatrix) {
+    this.modulationMatrix = matrix;
+  }
 
-    // Trigger release phase for all operators
-    this.currentParams.forEach((params, i) => {
-      if (this.envelopes[i]) {
-        const currentGain = this.envelopes[i].gain.value;
-        this.envelopes[i].gain.cancelScheduledValues(currentTime);
-        this.envelopes[i].gain.setValueAtTime(currentGain, currentTime);
-        this.envelopes[i].gain.linearRampToValueAtTime(0, currentTime + params.release);
+  // Cut every note sounding at `when` with a quick fade (used by choke groups)
+  choke(when?: number) {
+    const time = this.resolveTime(when);
+    if (this.worklet) {
+      this.post({ type: 'choke', time });
+      return;
+    }
+    this.voices.forEach(voice => {
+      if (voice.startTime <= time && voice.stopTime > time) {
+        this.chokeVoice(voice, time);
       }
     });
+  }
+
+  // Enter the release phase of every sounding note at `when` (defaults to now)
+  noteOff(when?: number) {
+    const releaseTime = this.resolveTime(when);
+    if (this.worklet) {
+      this.post({ type: 'noteoff', time: releaseTime });
+      return;
+    }
+
+    this.voices.forEach(voice => {
+      if (voice.released || voice.stopTime <= releaseTime) return;
+      voice.released = true;
+
+      // Trigger release phase for all operators
+      voice.params.forEach((params, i) => {
+        const envGain = voice.envelopes[i];
+        holdValueAtTime(envGain.gain, releaseTime);
+        envGain.gain.linearRampToValueAtTime(0, releaseTime + params.release);
+      });
 
-    // Stop oscillators and cleanup after release
-    const maxRelease = Math.max(...this.currentParams.map(op => op.release));
-    setTimeout(() => {
-      this.cleanup();
-      this.isPlaying = false;
-      this.releaseScheduled = false;
-    }, maxRelease * 1000 + 100);
+      // Stop oscillators after the longest release (cleanup follows from onended)
+      const maxRelease = Math.max(...voice.params.map(op => op.release));
+      this.stopVoice(voice, Math.min(voice.stopTime, releaseTime + maxRelease));
+    });
   }
 
   trigger(
@@ -94,32 +236,51 @@ export class FMSynth {
     lfoParams: LFOParams,
     algorithm: FMAlgorithm = 'serial',
     pitchEnvelope?: PitchEnvelopeParams,
-    velocity: number = 1.0
+    velocity: number = 1.0,
+    when?: number
   ) {
-    const currentTime = this.audioContext.currentTime;
-
-    // Cancel any pending cleanup timers
-    if (this.cleanupTimer !== null) {
-      clearTimeout(this.cleanupTimer);
-      this.cleanupTimer = null;
-    }
-    if (this.autoStopTimer !== null) {
-      clearTimeout(this.autoStopTimer);
-      this.autoStopTimer = null;
+    // Note start on the audio clock; defaults to "now" and never lies in the past
+    const currentTime = this.resolveTime(when);
+
+    if (this.worklet) {
+      // Voice allocation happens in the worklet, at the note's exact start sample
+      this.post({
+        type: 'trigger',
+        time: currentTime,
+        note: {
+          baseFrequency,
+          duration,
+          operators: operatorParams,
+          routing: getAlgorithmRouting(algorithm, operatorParams, this.modulationMatrix),
+          lfo: lfoParams,
+          pitchEnvelope: pitchEnvelope ?? null,
+          velocity,
+          chokeMode: this.chokeMode,
+          voiceCount: this.voiceCount,
+        },
+      });
+      return;
     }
 
-    // If already playing, immediately clean up old notes
-    if (this.isPlaying) {
-      this.cleanupImmediate();
-    }
+    this.allocateVoice(currentTime);
 
-    this.isPlaying = true;
-    this.releaseScheduled = false;
-    this.currentParams = operatorParams;
+    // Calculate stop time with max release
+    const maxRelease = Math.max(...operatorParams.map(op => op.release));
+    const oscStopTime = currentTime + duration + maxRelease;
 
-    const tempOperators: OscillatorNode[] = [];
-    const tempGains: GainNode[] = [];
-    const tempEnvGains: GainNode[] = [];
+    const voice: Voice = {
+      operators: [],
+      gains: [],
+      envelopes: [],
+      modGains: [],
+      modDelays: [],
+      lfo: null,
+      lfoGain: null,
+      params: operatorParams,
+      startTime: currentTime,
+      stopTime: oscStopTime,
+      released: false,
+    };
 
     // Create all 4 operators first
     for (let i = 0; i < 4; i++) {
@@ -127,21 +288,7 @@ export class FMSynth {
 
       // Oscillator
       const osc = this.audioContext.createOscillator();
-      osc.frequency.value = baseFrequency * params.ratio;
-
-      // Apply pitch envelope if provided
-      if (pitchEnvelope && pitchEnvelope.depth > 0) {
-        const pitchDepth = baseFrequency * params.ratio * pitchEnvelope.depth;
-        osc.frequency.setValueAtTime(baseFrequency * params.ratio + pitchDepth, currentTime);
-        osc.frequency.linearRampToValueAtTime(
-          baseFrequency * params.ratio + pitchDepth * 0.5,
-          currentTime + pitchEnvelope.attack
-        );
-        osc.frequency.linearRampToValueAtTime(
-          baseFrequency * params.ratio,
-          currentTime + pitchEnvelope.attack + pitchEnvelope.decay
-        );
-      }
+      applyPitchEnvelope(osc.frequency, baseFrequency * params.ratio, pitchEnvelope, currentTime);
 
       // Envelope gain
       const envGain = this.audioContext.createGain();
@@ -151,31 +298,20 @@ export class FMSynth {
       const opGain = this.audioContext.createGain();
       opGain.gain.value = params.level * velocity;
 
-      // Feedback
-      const feedbackDelay = this.audioContext.createDelay();
-      feedbackDelay.delayTime.value = 0.001;
-      const feedbackGain = this.audioContext.createGain();
-      feedbackGain.gain.value = params.feedbackAmount;
-
-      // Connect feedback loop
-      osc.connect(feedbackDelay);
-      feedbackDelay.connect(feedbackGain);
-      feedbackGain.connect(feedbackDelay);
+      // Waveform, and an approximation of feedback: Web Audio can't feed a signal back within a sample, so
+      // the oscillator plays a fixed wave with the spectrum feedback settles into at full level. Only the
+      // worklet engine runs real operator self-feedback.
+      if (params.waveform !== 'sine' || params.feedbackAmount > 0) {
+        osc.setPeriodicWave(getOperatorWave(this.audioContext, params));
+      }
 
       // Main signal path
       osc.connect(envGain);
-      feedbackDelay.connect(envGain);
       envGain.connect(opGain);
 
-      tempOperators.push(osc);
-      tempGains.push(opGain);
-      tempEnvGains.push(envGain);
-
-      this.operators.push(osc);
-      this.gains.push(opGain);
-      this.envelopes.push(envGain);
-      this.feedbackNodes.push(feedbackDelay);
-      this.feedbackGains.push(feedbackGain);
+      voice.operators.push(osc);
+      voice.gains.push(opGain);
+      voice.envelopes.push(envGain);
 
       // Full ADSR Envelope
       const attack = params.attack;
@@ -206,282 +342,161 @@ export class FMSynth {
     }
 
     // Connect FM routing based on algorithm
-    this.connectAlgorithm(algorithm, tempOperators, tempGains, tempEnvGains, operatorParams);
-
-    // Calculate stop time with max release
-    const maxRelease = Math.max(...operatorParams.map(op => op.release));
-    const oscStopTime = currentTime + duration + maxRelease;
+    this.connectAlgorithm(algorithm, voice, operatorParams, baseFrequency, pitchEnvelope, currentTime);
 
     // Start all oscillators
     for (let i = 0; i < 4; i++) {
-      tempOperators[i].start(currentTime);
-      tempOperators[i].stop(oscStopTime);
+      voice.operators[i].start(currentTime);
+      voice.operators[i].stop(oscStopTime);
     }
 
     // LFO
     if (lfoParams.depth > 0) {
-      this.lfo = this.audioContext.createOscillator();
-      this.lfo.frequency.value = lfoParams.frequency;
+      voice.lfo = this.audioContext.createOscillator();
+      voice.lfo.frequency.value = lfoParams.frequency;
 
-      this.lfoGain = this.audioContext.createGain();
-      this.lfoGain.gain.value = lfoParams.depth * baseFrequency;
+      voice.lfoGain = this.audioContext.createGain();
+      voice.lfoGain.gain.value = lfoParams.depth * baseFrequency;
 
-      this.lfo.connect(this.lfoGain);
+      voice.lfo.connect(voice.lfoGain);
 
-      // Apply LFO to all operators
-      this.operators.forEach(osc => {
-        if (this.lfoGain) {
-          this.lfoGain.connect(osc.frequency);
-        }
+      // Apply LFO to all operators of this note
+      voice.operators.forEach(osc => {
+        voice.lfoGain?.connect(osc.frequency);
       });
 
-      this.lfo.start(currentTime);
-      this.lfo.stop(oscStopTime);
+      voice.lfo.start(currentTime);
+      voice.lfo.stop(oscStopTime);
     }
 
-    // Auto cleanup after full duration (ADSR complete)
-    this.autoStopTimer = window.setTimeout(() => {
-      if (this.isPlaying && !this.releaseScheduled) {
-        this.cleanup();
-        this.isPlaying = false;
-      }
-    }, (duration + maxRelease) * 1000 + 100);
+    // Release the nodes once the note has finished on the audio clock
+    // (all oscillators share the same stop time, so the first one stands in for the voice)
+    voice.operators[0].onended = () => this.disposeVoice(voice);
+
+    this.voices.push(voice);
   }
 
   private connectAlgorithm(
     algorithm: FMAlgorithm,
-    operators: OscillatorNode[],
-    gains: GainNode[],
-    _envGains: GainNode[],
-    operatorParams: OperatorParams[]
+    voice: Voice,
+    operatorParams: OperatorParams[],
+    baseFrequency: number,
+    pitchEnvelope: PitchEnvelopeParams | undefined,
+    time: number
   ) {
-    switch (algorithm) {
-      case 'serial':
-        // 0->1->2->3->output (serial chain)
-        for (let i = 0; i < 4; i++) {
-          if (i < 3) {
-            const modGain = this.audioContext.createGain();
-            modGain.gain.value = operatorParams[i].level * (1000 - i * 200);
-            gains[i].connect(modGain);
-            modGain.connect(operators[i + 1].frequency);
-          } else {
-            gains[i].connect(this.masterGain);
-          }
-        }
-        break;
-
-      case 'parallel':
-        // All operators go directly to output
-        for (let i = 0; i < 4; i++) {
-          gains[i].connect(this.masterGain);
-        }
-        break;
-
-      case 'hybrid1': {
-        // 0->1, 2->3, both to output
-        const modGain0 = this.audioContext.createGain();
-        modGain0.gain.value = operatorParams[0].level * 1000;
-        gains[0].connect(modGain0);
-        modGain0.connect(operators[1].frequency);
-
-        const modGain2 = this.audioContext.createGain();
-        modGain2.gain.value = operatorParams[2].level * 1000;
-        gains[2].connect(modGain2);
-        modGain2.connect(operators[3].frequency);
-
-        gains[1].connect(this.masterGain);
-        gains[3].connect(this.masterGain);
-        break;
-      }
-
-      case 'hybrid2': {
-        // 0->1->2, 3 separate, both to output
-        const modGain0h2 = this.audioContext.createGain();
-        modGain0h2.gain.value = operatorParams[0].level * 1000;
-        gains[0].connect(modGain0h2);
-        modGain0h2.connect(operators[1].frequency);
-
-        const modGain1h2 = this.audioContext.createGain();
-        modGain1h2.gain.value = operatorParams[1].level * 800;
-        gains[1].connect(modGain1h2);
-        modGain1h2.connect(operators[2].frequency);
-
-        gains[2].connect(this.masterGain);
-        gains[3].connect(this.masterGain);
-        break;
+    const { operators, gains } = voice;
+    const { modulations, carriers } = getAlgorithmRouting(algorithm, operatorParams, this.modulationMatrix);
+
+    for (const { from, to, index } of modulations) {
+      // Frequency modulation by index * modulator frequency (Hz) gives the same spectrum as phase
+      // modulation by the index; it follows the modulator's pitch envelope but not the LFO
+      const modGain = this.audioContext.createGain();
+      applyPitchEnvelope(modGain.gain, index * baseFrequency * operatorParams[from].ratio, pitchEnvelope, time);
+      gains[from].connect(modGain);
+      if (from < to) {
+        modGain.connect(operators[to].frequency);
+      } else {
+        // Web Audio mutes cycles without a delay, so a custom matrix that modulates back up the chain goes
+        // through one (the delay of one render quantum only applies where the connection closes a cycle)
+        const modDelay = this.audioContext.createDelay();
+        modDelay.delayTime.value = 0;
+        modGain.connect(modDelay);
+        modDelay.connect(operators[to].frequency);
+        voice.modDelays.push(modDelay);
       }
+      voice.modGains.push(modGain);
     }
+    carriers.forEach(i => gains[i].connect(this.masterGain));
   }
 
-  private cleanupImmediate() {
-    // Immediate cleanup with quick fade (used when new note starts)
-    const currentTime = this.audioContext.currentTime;
-    const quickFadeTime = 0.001; // 1ms very quick fade
+  // Make room for a note starting at `time`.
+  // Mono: notes still sounding are cut at the new start time.
+  // Poly: only the oldest notes are stolen once all voices are in use.
+  private allocateVoice(time: number) {
+    const sounding = this.voices.filter(voice => voice.startTime <= time && voice.stopTime > time);
+    const maxSounding = this.chokeMode === 'poly' ? this.voiceCount - 1 : 0;
+
+    sounding
+      .sort((a, b) => a.startTime - b.startTime)
+      .slice(0, Math.max(0, sounding.length - maxSounding))
+      .forEach(voice => this.chokeVoice(voice, time));
+  }
 
-    // Fade out envelopes
-    this.envelopes.forEach(env => {
-      try {
-        const currentGain = env.gain.value;
-        env.gain.cancelScheduledValues(currentTime);
-        env.gain.setValueAtTime(currentGain, currentTime);
-        env.gain.linearRampToValueAtTime(0, currentTime + quickFadeTime);
-      } catch (_e) {
-        // Ignore if already disconnected
-      }
-    });
+  // Clamp a requested start time so it never lies in the past
+  private resolveTime(when?: number): number {
+    return Math.max(when ?? this.audioContext.currentTime, this.audioContext.currentTime);
+  }
 
-    // Stop and disconnect immediately (fade happens in audio thread)
-    this.operators.forEach(osc => {
-      try {
-        osc.stop(currentTime + quickFadeTime + 0.001);
-        osc.disconnect();
-      } catch (_e) {
-        // Already disconnected
-      }
+  // Cut a note with a quick fade at `time` (used when a new note starts)
+  private chokeVoice(voice: Voice, time: number) {
+    voice.envelopes.forEach(env => {
+      holdValueAtTime(env.gain, time);
+      env.gain.linearRampToValueAtTime(0, time + QUICK_FADE_TIME);
     });
+    voice.released = true;
+    this.stopVoice(voice, time + QUICK_FADE_TIME + 0.001);
+  }
 
-    this.gains.forEach(gain => {
-      try {
-        gain.disconnect();
-      } catch (_e) {
-        // Ignore
-      }
-    });
-    this.envelopes.forEach(env => {
-      try {
-        env.disconnect();
-      } catch (_e) {
-        // Ignore
-      }
-    });
-    this.feedbackNodes.forEach(fb => {
-      try {
-        fb.disconnect();
-      } catch (_e) {
-        // Ignore
-      }
-    });
-    this.feedbackGains.forEach(fb => {
-      try {
-        fb.disconnect();
-      } catch (_e) {
-        // Ignore
-      }
-    });
+  // Move the oscillators' stop time earlier (fade happens in audio thread)
+  private stopVoice(voice: Voice, time: number) {
+    if (time >= voice.stopTime) return;
+    voice.stopTime = time;
 
-    if (this.lfo) {
+    voice.operators.forEach(osc => {
       try {
-        this.lfo.stop(currentTime + quickFadeTime + 0.001);
-        this.lfo.disconnect();
-      } catch (_e) {
-        // Ignore
+        osc.stop(time);
+      } catch {
+        // Already stopped
       }
-      this.lfo = null;
-    }
-
-    if (this.lfoGain) {
+    });
+    if (voice.lfo) {
       try {
-        this.lfoGain.disconnect();
-      } catch (_e) {
-        // Ignore
+        voice.lfo.stop(time);
+      } catch {
+        // Already stopped
       }
-      this.lfoGain = null;
     }
-
-    this.operators = [];
-    this.gains = [];
-    this.envelopes = [];
-    this.feedbackNodes = [];
-    this.feedbackGains = [];
   }
 
-  private cleanup() {
-    const currentTime = this.audioContext.currentTime;
-    const fadeTime = 0.005; // 5ms quick fade to avoid clicks
-
-    // Fade out envelopes before disconnecting
-    this.envelopes.forEach(env => {
+  private disposeVoice(voice: Voice) {
+    const nodes: AudioNode[] = [
+      ...voice.operators,
+      ...voice.gains,
+      ...voice.envelopes,
+      ...voice.modGains,
+      ...voice.modDelays,
+    ];
+    if (voice.lfo) nodes.push(voice.lfo);
+    if (voice.lfoGain) nodes.push(voice.lfoGain);
+
+    nodes.forEach(node => {
       try {
-        env.gain.cancelScheduledValues(currentTime);
-        env.gain.setValueAtTime(env.gain.value, currentTime);
-        env.gain.linearRampToValueAtTime(0, currentTime + fadeTime);
-      } catch (_e) {
+        node.disconnect();
+      } catch {
         // Ignore if already disconnected
       }
     });
 
-    // Schedule disconnection after fade
-    this.cleanupTimer = window.setTimeout(() => {
-      // Disconnect without additional fade
-      this.operators.forEach(osc => {
-        try {
-          osc.stop();
-          osc.disconnect();
-        } catch (_e) {
-          // Already disconnected
-        }
-      });
-
-      this.gains.forEach(gain => {
-        try {
-          gain.disconnect();
-        } catch (_e) {
-          // Ignore
-        }
-      });
-      this.envelopes.forEach(env => {
-        try {
-          env.disconnect();
-        } catch (_e) {
-          // Ignore
-        }
-      });
-      this.feedbackNodes.forEach(fb => {
-        try {
-          fb.disconnect();
-        } catch (_e) {
-          // Ignore
-        }
-      });
-      this.feedbackGains.forEach(fb => {
-        try {
-          fb.disconnect();
-        } catch (_e) {
-          // Ignore
-        }
-      });
-
-      if (this.lfo) {
-        try {
-          this.lfo.stop();
-          this.lfo.disconnect();
-        } catch (_e) {
-          // Ignore
-        }
-        this.lfo = null;
-      }
-
-      if (this.lfoGain) {
-        try {
-          this.lfoGain.disconnect();
-        } catch (_e) {
-          // Ignore
-        }
-        this.lfoGain = null;
-      }
+    this.voices = this.voices.filter(v => v !== voice);
+  }
 
-      this.operators = [];
-      this.gains = [];
-      this.envelopes = [];
-      this.feedbackNodes = [];
-      this.feedbackGains = [];
+  private post(message: FMProcessorMessage) {
+    this.worklet?.port.postMessage(message);
+  }
 
-      this.cleanupTimer = null;
-    }, fadeTime * 1000 + 5);
+  // Stop the processor (it is garbage collected once it stops rendering)
+  private disposeWorklet(worklet: AudioWorkletNode) {
+    worklet.port.postMessage({ type: 'dispose' } satisfies FMProcessorMessage);
+    worklet.disconnect();
   }
 
   disconnect() {
-    this.cleanup();
+    const currentTime = this.audioContext.currentTime;
+    this.voices.forEach(voice => this.chokeVoice(voice, currentTime));
+    if (this.worklet) {
+      this.disposeWorklet(this.worklet);
+      this.worklet = null;
+    }
     this.masterGain.disconnect();
   }
 }
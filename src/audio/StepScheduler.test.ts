@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StepScheduler } from './StepScheduler';
+import { getStepDuration } from './playback';
+
+// Audio context stand-in whose clock is advanced manually
+function createClock() {
+  return { currentTime: 0 } as { currentTime: number } & BaseAudioContext;
+}
+
+describe('StepScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should schedule steps ahead on the audio clock', () => {
+    vi.useFakeTimers();
+    const clock = createClock();
+    const scheduled: [number, number][] = [];
+    const scheduler = new StepScheduler(
+      clock,
+      {
+        onStep: (step, time) => scheduled.push([step, time]),
+        getStepDuration: () => 0.125,
+      },
+      { lookahead: 0.1, interval: 25, startDelay: 0 }
+    );
+
+    scheduler.start(0);
+    expect(scheduled).toEqual([[0, 0]]);
+
+    clock.currentTime = 0.2;
+    vi.advanceTimersByTime(25);
+    expect(scheduled.map(([step]) => step)).toEqual([0, 1, 2]);
+    expect(scheduled[2][1]).toBeCloseTo(0.25);
+
+    clock.currentTime = 0.45;
+    vi.advanceTimersByTime(25);
+    expect(scheduled.map(([step]) => step)).toEqual([0, 1, 2, 3, 4]);
+    expect(scheduled[4][1]).toBeCloseTo(0.5);
+
+    scheduler.stop();
+  });
+
+  it('should apply shuffle offsets to step times', () => {
+    vi.useFakeTimers();
+    const clock = createClock();
+    const times: number[] = [];
+    const scheduler = new StepScheduler(
+      clock,
+      {
+        onStep: (_step, time) => times.push(time),
+        getStepDuration: step => getStepDuration(step, 0.125, 0.5),
+      },
+      { lookahead: 0.5, startDelay: 0 }
+    );
+
+    scheduler.start(0);
+    scheduler.stop();
+
+    expect(times[0]).toBeCloseTo(0);
+    expect(times[1]).toBeCloseTo(0.125 * 1.25);
+    expect(times[2]).toBeCloseTo(0.25);
+    expect(times[3]).toBeCloseTo(0.25 + 0.125 * 1.25);
+  });
+
+  it('should schedule steps earlier by their lead', () => {
+    vi.useFakeTimers();
+    const clock = createClock();
+    const scheduled: number[] = [];
+    const scheduler = new StepScheduler(
+      clock,
+      {
+        onStep: step => scheduled.push(step),
+        getStepDuration: () => 0.125,
+        getStepLead: () => 0.0625,
+      },
+      { lookahead: 0.1, startDelay: 0 }
+    );
+
+    // Step 1 starts at 0.125 but may sound from 0.0625, inside the look-ahead
+    scheduler.start(0);
+    scheduler.stop();
+
+    expect(scheduled).toEqual([0, 1]);
+  });
+
+  it('should report the playing step from the audio clock', () => {
+    vi.useFakeTimers();
+    const clock = createClock();
+    const scheduler = new StepScheduler(
+      clock,
+      {
+        onStep: () => {},
+        getStepDuration: () => 0.1,
+      },
+      { lookahead: 0.35, startDelay: 0.05 }
+    );
+
+    scheduler.start(2);
+    expect(scheduler.getPlayingStep()).toBeNull();
+
+    clock.currentTime = 0.05;
+    expect(scheduler.getPlayingStep()).toBe(2);
+
+    clock.currentTime = 0.27;
+    expect(scheduler.getPlayingStep()).toBe(4);
+
+    // Step 4 started at 0.25, step 5 starts at 0.35
+    expect(scheduler.getNearestStep()).toBe(4);
+    clock.currentTime = 0.32;
+    vi.advanceTimersByTime(25);
+    expect(scheduler.getNearestStep()).toBe(5);
+
+    scheduler.stop();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Look-ahead step scheduler.
+ *
+ * A coarse main-thread timer wakes up every few milliseconds and schedules every step
+ * that starts within the look-ahead window, using exact times on the audio clock.
+ * Main-thread stalls (knob drags, re-renders) therefore only delay *when* notes are
+ * queued, never when they sound, as long as the stall is shorter than the look-ahead.
+ *
+ * The UI playhead is decoupled from scheduling: scheduled steps are queued and the UI
+ * polls getPlayingStep() (e.g. from requestAnimationFrame) to follow the audio clock.
+ *
+ * Steps are counted from the start of the transport and never wrap here; each track wraps
+ * the count by its own pattern length, so tracks of different lengths drift against each other.
+ */
+
+export interface StepSchedulerCallbacks {
+  // Schedule all sounds of `step` to start at `time` (audio clock, seconds)
+  onStep: (step: number, time: number) => void;
+  // Time from the start of `step` to the start of the following step (seconds, shuffle included)
+  getStepDuration: (step: number) => number;
+  // How long before `step` its sounds may start (seconds), e.g. for negative micro-timing; the step is scheduled that much earlier
+  getStepLead?: (step: number) => number;
+}
+
+export interface StepSchedulerOptions {
+  lookahead?: number; // How far ahead to schedule (seconds)
+  interval?: number; // How often the scheduling timer runs (milliseconds)
+  startDelay?: number; // Gap between start() and the first step (seconds)
+}
+
+interface QueuedStep {
+  step: number;
+  time: number;
+}
+
+export class StepScheduler {
+  private audioContext: BaseAudioContext;
+  private callbacks: StepSchedulerCallbacks;
+  private lookahead: number;
+  private interval: number;
+  private startDelay: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private nextStep: number = 0;
+  private nextStepTime: number = 0;
+  private queue: QueuedStep[] = [];
+  private playingStep: number | null = null;
+  private playingStepTime: number = 0;
+
+  constructor(audioContext: BaseAudioContext, callbacks: StepSchedulerCallbacks, options: StepSchedulerOptions = {}) {
+    this.audioContext = audioContext;
+    this.callbacks = callbacks;
+    this.lookahead = options.lookahead ?? 0.1;
+    this.interval = options.interval ?? 25;
+    this.startDelay = options.startDelay ?? 0.05;
+  }
+
+  start(startStep: number = 0) {
+    this.stop();
+
+    this.nextStep = startStep;
+    this.nextStepTime = this.audioContext.currentTime + this.startDelay;
+    this.queue = [];
+    this.playingStep = null;
+
+    this.tick();
+    this.timer = setInterval(() => this.tick(), this.interval);
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Step that is currently sounding according to the audio clock (null before the first step starts)
+  getPlayingStep(): number | null {
+    const currentTime = this.audioContext.currentTime;
+    while (this.queue.length > 0 && this.queue[0].time <= currentTime) {
+      const { step, time } = this.queue.shift()!;
+      this.playingStep = step;
+      this.playingStepTime = time;
+    }
+    return this.playingStep;
+  }
+
+  // Step whose start is closest to the audio clock, for quantizing live input (null before the first step starts)
+  getNearestStep(): number | null {
+    const playingStep = this.getPlayingStep();
+    if (playingStep === null) return null;
+
+    const currentTime = this.audioContext.currentTime;
+    const next = this.queue[0];
+    if (next && next.time - currentTime < currentTime - this.playingStepTime) {
+      return next.step;
+    }
+    return playingStep;
+  }
+
+  private tick() {
+    const currentTime = this.audioContext.currentTime;
+    const horizon = currentTime + this.lookahead;
+
+    // After a stall longer than the look-ahead (e.g. background tab) resume from now instead of bursting the missed steps
+    if (this.nextStepTime < currentTime - this.lookahead) {
+      this.nextStepTime = currentTime;
+    }
+
+    while (this.nextStepTime - (this.callbacks.getStepLead?.(this.nextStep) ?? 0) < horizon) {
+      const step = this.nextStep;
+
+      this.callbacks.onStep(step, this.nextStepTime);
+      this.queue.push({ step, time: this.nextStepTime });
+
+      this.nextStepTime += this.callbacks.getStepDuration(step);
+      this.nextStep = step + 1;
+    }
+  }
+}
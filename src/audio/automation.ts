@@ -0,0 +1,11 @@
+// Freeze an AudioParam at whatever value its automation has reached at `time`,
+// dropping anything scheduled after it (falls back to the current value where cancelAndHold is unsupported)
+export function holdValueAtTime(param: AudioParam, time: number) {
+  if (typeof param.cancelAndHoldAtTime === 'function') {
+    param.cancelAndHoldAtTime(time);
+  } else {
+    const currentValue = param.value;
+    param.cancelScheduledValues(time);
+    param.setValueAtTime(currentValue, time);
+  }
+}
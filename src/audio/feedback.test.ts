@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getFeedbackHarmonics } from './feedback';
+
+// Amplitude of each harmonic, from 1
+function getAmplitudes(amount: number, count: number): number[] {
+  const { real, imag } = getFeedbackHarmonics(amount, count);
+  return Array.from({ length: count }, (_, i) => Math.hypot(real[i + 1], imag[i + 1]));
+}
+
+describe('operator feedback', () => {
+  it('should be a pure sine without feedback', () => {
+    const [fundamental, ...overtones] = getAmplitudes(0, 8);
+    expect(fundamental).toBeCloseTo(1, 5);
+    overtones.forEach(amplitude => expect(amplitude).toBeCloseTo(0, 5));
+  });
+
+  it('should approach a saw wave as feedback rises', () => {
+    const mild = getAmplitudes(0.1, 4);
+    const strong = getAmplitudes(0.5, 4);
+
+    expect(mild[1]).toBeLessThan(strong[1]);
+    // Harmonics fall off roughly as 1/n, like a saw
+    expect(strong[1]).toBeGreaterThan(0.2);
+    expect(strong[0]).toBeGreaterThan(strong[1]);
+    expect(strong[1]).toBeGreaterThan(strong[2]);
+    expect(strong[2]).toBeGreaterThan(strong[3]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * DX-style operator self-feedback: an operator's phase is modulated by its own output, averaged over the
+ * previous two samples like the DX7 does (which keeps high settings from flipping between two states).
+ * Rising feedback turns the sine into a saw-like wave and, near the top of the range, into noise.
+ */
+
+// Phase offset (radians) at full output for feedbackAmount = 1; the waveform turns chaotic above ~3.5
+export const MAX_FEEDBACK_INDEX = 1.5 * Math.PI;
+
+// Samples per period and settling periods of the simulated waveform used by getFeedbackHarmonics
+const PERIOD_SAMPLES = 256;
+const SETTLE_PERIODS = 8;
+
+export function getFeedbackIndex(amount: number): number {
+  return Math.max(0, Math.min(1, amount)) * MAX_FEEDBACK_INDEX;
+}
+
+// Cosine (real) and sine (imag) harmonic amplitudes of one steady-state period of a feedback operator at
+// full output playing `wave` (a function of the phase in radians), index 0 = DC. The node-graph engine can't
+// feed a signal back within a sample and approximates feedback by playing this waveform as a PeriodicWave:
+// fixed for the whole note, it doesn't follow the envelope and can't reach the noisy top of the range.
+export function getFeedbackHarmonics(
+  amount: number,
+  harmonics: number = 64,
+  wave: (phase: number) => number = Math.sin
+): { real: Float32Array; imag: Float32Array } {
+  const index = getFeedbackIndex(amount);
+  const period = new Float64Array(PERIOD_SAMPLES);
+  let previous1 = 0;
+  let previous2 = 0;
+  for (let n = 0; n < PERIOD_SAMPLES * SETTLE_PERIODS; n++) {
+    const phase = (2 * Math.PI * (n % PERIOD_SAMPLES)) / PERIOD_SAMPLES;
+    const output = wave(phase + (index * (previous1 + previous2)) / 2);
+    previous2 = previous1;
+    previous1 = output;
+    period[n % PERIOD_SAMPLES] = output;
+  }
+
+  const real = new Float32Array(harmonics + 1);
+  const imag = new Float32Array(harmonics + 1);
+  for (let k = 1; k <= harmonics; k++) {
+    let cos = 0;
+    let sin = 0;
+    for (let n = 0; n < PERIOD_SAMPLES; n++) {
+      const angle = (2 * Math.PI * k * n) / PERIOD_SAMPLES;
+      cos += period[n] * Math.cos(angle);
+      sin += period[n] * Math.sin(angle);
+    }
+    real[k] = (2 * cos) / PERIOD_SAMPLES;
+    imag[k] = (2 * sin) / PERIOD_SAMPLES;
+  }
+  return { real, imag };
+}
@@ -0,0 +1,48 @@
+import { FMVoiceEngine, FM_PROCESSOR_NAME } from './fmVoiceEngine';
+import type { FMProcessorMessage } from './fmVoiceEngine';
+
+/**
+ * AudioWorklet processor of the worklet FM engine. Loaded into the audio context as a module
+ * (see loadFMWorklet in FMSynth.ts); one processor renders every note of one FMSynth.
+ */
+
+// Globals of the AudioWorkletGlobalScope, which the DOM typings don't include
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+class FMSynthProcessor extends AudioWorkletProcessor {
+  private engine = new FMVoiceEngine(sampleRate);
+  private disposed = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<FMProcessorMessage>) => {
+      const message = event.data;
+      if (message.type === 'sync') {
+        this.port.postMessage({ type: 'synced', id: message.id });
+      } else if (message.type === 'dispose') {
+        this.disposed = true;
+      } else {
+        this.engine.schedule(message);
+      }
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const channels = outputs[0] ?? [];
+    if (channels.length > 0) {
+      this.engine.render(channels[0], currentTime);
+      for (let i = 1; i < channels.length; i++) {
+        channels[i].set(channels[0]);
+      }
+    }
+    // Returning false lets the node be garbage collected
+    return !this.disposed;
+  }
+}
+
+registerProcessor(FM_PROCESSOR_NAME, FMSynthProcessor);
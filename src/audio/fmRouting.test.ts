@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_MOD_INDEX, createModulationMatrix, getAlgorithmRouting, getLegacyModIndex, migrateOperators } from './fmRouting';
+import type { OperatorParams } from './types';
+
+const operators: OperatorParams[] = [1, 0.5, 0.25, 1].map(level => ({
+  frequency: 0,
+  ratio: 1,
+  level,
+  attack: 0,
+  decay: 0,
+  sustain: 1,
+  release: 0.1,
+  feedbackAmount: 0,
+  modIndex: 2,
+  waveform: 'sine',
+  harmonics: [1],
+}));
+
+describe('FM routing', () => {
+  it('should scale the modulator index by the depths of the original algorithms', () => {
+    expect(getAlgorithmRouting('serial', operators)).toEqual({
+      modulations: [
+        { from: 0, to: 1, index: 2 },
+        { from: 1, to: 2, index: 1.6 },
+        { from: 2, to: 3, index: 1.2 },
+      ],
+      carriers: [3],
+    });
+    expect(getAlgorithmRouting('hybrid2', operators).carriers).toEqual([2, 3]);
+    expect(getAlgorithmRouting('parallel', operators)).toEqual({ modulations: [], carriers: [0, 1, 2, 3] });
+  });
+
+  it('should route a custom matrix, ignoring the diagonal', () => {
+    const matrix = createModulationMatrix('parallel');
+    matrix.depths[3][0] = 0.5; // OP4 modulating OP1, back up the chain
+    matrix.depths[1][1] = 1; // Self-modulation is the feedback knob's job
+    matrix.carriers = [true, false, false, false];
+
+    expect(getAlgorithmRouting('custom', operators, matrix)).toEqual({
+      modulations: [{ from: 3, to: 0, index: 1 }],
+      carriers: [0],
+    });
+    // The preset matrices are copied, not shared
+    expect(createModulationMatrix('parallel').carriers).toEqual([true, true, true, true]);
+  });
+
+  it('should migrate fixed-Hz modulation to the index giving the same deviation', () => {
+    const { modIndex, ...legacy } = { ...operators[1], ratio: 2 };
+    const [migrated] = migrateOperators([legacy], 100);
+
+    // Old depth: level * 1000 Hz; new: index * modulator frequency (100 Hz * ratio 2)
+    expect(migrated.modIndex * 200).toBeCloseTo(legacy.level * 1000);
+    expect(migrateOperators([{ ...legacy, modIndex }], 100)[0].modIndex).toBe(modIndex);
+    expect(getLegacyModIndex({ level: 1, ratio: 0.5 }, 20)).toBe(MAX_MOD_INDEX);
+  });
+});
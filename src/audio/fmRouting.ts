@@ -0,0 +1,148 @@
+import type { FMAlgorithm, ModulationMatrix, OperatorParams } from './types';
+import { createHarmonics } from './waveforms';
+
+/**
+ * Operator routing of an FM algorithm, shared by the node-graph and worklet engines.
+ *
+ * Every algorithm is a modulation matrix (see ModulationMatrix): the fixed ones are the eight 4-operator
+ * OPN/OPM topologies plus the original hybrid2, and 'custom' plays the track's own matrix.
+ *
+ * A modulation phase modulates the `to` operator with the `from` operator's output (after its level and
+ * velocity) times `index`: the modulator's index scaled by the connection depth. Being relative to the
+ * modulator's frequency, the timbre stays the same whatever note is played. Carriers are summed into the output.
+ */
+
+export const OPERATOR_COUNT = 4;
+
+// Range of the per-operator modulation index
+export const MAX_MOD_INDEX = 16;
+
+// Hz of deviation per unit of level that modulation had before it was relative (see getLegacyModIndex)
+const LEGACY_MODULATION_SCALE = 1000;
+
+export interface FMModulation {
+  from: number;
+  to: number;
+  index: number;
+}
+
+export interface FMRouting {
+  modulations: FMModulation[];
+  carriers: number[];
+}
+
+// Algorithms in the order the UI lists them (OPN/OPM algorithm numbers 0-7 first)
+export const FM_ALGORITHMS: FMAlgorithm[] = [
+  'serial',
+  'merge',
+  'branch',
+  'stack',
+  'hybrid1',
+  'fan',
+  'pair',
+  'parallel',
+  'hybrid2',
+  'custom',
+];
+
+export const ALGORITHM_LABELS: Record<FMAlgorithm, string> = {
+  serial: 'SER',
+  merge: 'MRG',
+  branch: 'BRN',
+  stack: 'STK',
+  hybrid1: 'H1',
+  fan: 'FAN',
+  pair: 'PAIR',
+  parallel: 'PAR',
+  hybrid2: 'H2',
+  custom: 'MTX',
+};
+
+function buildMatrix(connections: [from: number, to: number, depth: number][], carriers: number[]): ModulationMatrix {
+  const depths = Array.from({ length: OPERATOR_COUNT }, () => new Array<number>(OPERATOR_COUNT).fill(0));
+  connections.forEach(([from, to, depth]) => {
+    depths[from][to] = depth;
+  });
+  return {
+    depths,
+    carriers: Array.from({ length: OPERATOR_COUNT }, (_, i) => carriers.includes(i)),
+  };
+}
+
+// Connections further from the output are shallower, like the original serial chain (depths 1, 0.8, 0.6)
+const ALGORITHM_MATRICES: Record<Exclude<FMAlgorithm, 'custom'>, ModulationMatrix> = {
+  // 0: 1->2->3->4->out
+  serial: buildMatrix([[0, 1, 1], [1, 2, 0.8], [2, 3, 0.6]], [3]),
+  // 1: (1 + 2)->3->4->out
+  merge: buildMatrix([[0, 2, 1], [1, 2, 1], [2, 3, 0.8]], [3]),
+  // 2: (1 + (2->3))->4->out
+  branch: buildMatrix([[0, 3, 1], [1, 2, 1], [2, 3, 0.8]], [3]),
+  // 3: ((1->2) + 3)->4->out
+  stack: buildMatrix([[0, 1, 1], [1, 3, 0.8], [2, 3, 1]], [3]),
+  // 4: 1->2, 3->4, both to output
+  hybrid1: buildMatrix([[0, 1, 1], [2, 3, 1]], [1, 3]),
+  // 5: 1 modulates 2, 3 and 4, all three to output
+  fan: buildMatrix([[0, 1, 1], [0, 2, 1], [0, 3, 1]], [1, 2, 3]),
+  // 6: 1->2, 3 and 4 alone, all three to output
+  pair: buildMatrix([[0, 1, 1]], [1, 2, 3]),
+  // 7: all operators go directly to output
+  parallel: buildMatrix([], [0, 1, 2, 3]),
+  // 1->2->3, 4 alone, both to output
+  hybrid2: buildMatrix([[0, 1, 1], [1, 2, 0.8]], [2, 3]),
+};
+
+// The matrix an algorithm plays; 'custom' uses the given matrix (serial when there is none)
+export function getAlgorithmMatrix(algorithm: FMAlgorithm, customMatrix?: ModulationMatrix): ModulationMatrix {
+  if (algorithm === 'custom') {
+    return customMatrix ?? ALGORITHM_MATRICES.serial;
+  }
+  return ALGORITHM_MATRICES[algorithm];
+}
+
+// An editable copy of an algorithm's matrix, e.g. as the starting point of a custom routing
+export function createModulationMatrix(algorithm: FMAlgorithm = 'serial'): ModulationMatrix {
+  const { depths, carriers } = getAlgorithmMatrix(algorithm);
+  return { depths: depths.map(row => [...row]), carriers: [...carriers] };
+}
+
+export function getAlgorithmRouting(
+  algorithm: FMAlgorithm,
+  operators: OperatorParams[],
+  customMatrix?: ModulationMatrix
+): FMRouting {
+  const { depths, carriers } = getAlgorithmMatrix(algorithm, customMatrix);
+
+  const modulations: FMModulation[] = [];
+  depths.forEach((row, from) => {
+    row.forEach((depth, to) => {
+      if (from !== to && depth > 0) {
+        modulations.push({ from, to, index: operators[from].modIndex * depth });
+      }
+    });
+  });
+
+  return {
+    modulations,
+    carriers: carriers.flatMap((isCarrier, i) => (isCarrier ? [i] : [])),
+  };
+}
+
+// Index that reproduces the fixed modulation of older versions (level * 1000 Hz of deviation per unit of
+// connection depth) for notes at `frequency`, for presets and share links saved before the index existed
+export function getLegacyModIndex(operator: Pick<OperatorParams, 'level' | 'ratio'>, frequency: number): number {
+  const modulatorFrequency = Math.max(1, frequency * operator.ratio);
+  return Math.min(MAX_MOD_INDEX, (operator.level * LEGACY_MODULATION_SCALE) / modulatorFrequency);
+}
+
+// Fill in what operators saved by older versions lack: the modulation index and the waveform
+export function migrateOperators(
+  operators: (Omit<OperatorParams, 'modIndex' | 'waveform' | 'harmonics'> & Partial<OperatorParams>)[],
+  frequency: number
+): OperatorParams[] {
+  return operators.map(op => ({
+    ...op,
+    modIndex: op.modIndex ?? getLegacyModIndex(op, frequency),
+    waveform: op.waveform ?? 'sine',
+    harmonics: op.harmonics ?? createHarmonics(),
+  }));
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { FMVoiceEngine } from './fmVoiceEngine';
+import type { FMNote } from './fmVoiceEngine';
+import { getAlgorithmRouting } from './fmRouting';
+import type { OperatorParams } from './types';
+
+const SAMPLE_RATE = 48000;
+
+function createNote(changes: Partial<FMNote> = {}): FMNote {
+  const operator: OperatorParams = {
+    frequency: 0,
+    ratio: 1,
+    level: 0,
+    attack: 0,
+    decay: 0,
+    sustain: 1,
+    release: 0.01,
+    feedbackAmount: 0,
+    modIndex: 2,
+    waveform: 'sine',
+    harmonics: [1],
+  };
+  const operators = [operator, operator, operator, { ...operator, level: 0.5 }];
+  return {
+    baseFrequency: 1000,
+    duration: 0.01,
+    operators,
+    routing: getAlgorithmRouting('parallel', operators),
+    lfo: { frequency: 0, depth: 0 },
+    pitchEnvelope: null,
+    velocity: 1,
+    chokeMode: 'mono',
+    voiceCount: 1,
+    ...changes,
+  };
+}
+
+describe('FMVoiceEngine', () => {
+  it('should start notes at their sample and release them', () => {
+    const engine = new FMVoiceEngine(SAMPLE_RATE);
+    engine.schedule({ type: 'trigger', time: 0.001, note: createNote() });
+
+    const output = new Float32Array(SAMPLE_RATE * 0.03);
+    engine.render(output, 0);
+
+    // Silent for the first 48 samples, then an unmodulated 1 kHz sine at the carrier level
+    expect(output.slice(0, 48).every(sample => sample === 0)).toBe(true);
+    expect(output[48 + 12]).toBeCloseTo(0.5 * Math.sin((2 * Math.PI * 12) / 48), 5);
+
+    // Released after 10ms over 10ms
+    expect(Math.max(...output.slice(48 + 480, 48 + 960).map(Math.abs))).toBeLessThan(0.5);
+    expect(output.slice(48 + 960).every(sample => sample === 0)).toBe(true);
+  });
+
+  it('should cut the sounding note in mono mode', () => {
+    const engine = new FMVoiceEngine(SAMPLE_RATE);
+    const note = createNote({ duration: 1 });
+    engine.schedule({ type: 'trigger', time: 0, note });
+    engine.schedule({ type: 'trigger', time: 0.01, note: { ...note, velocity: 0 } });
+
+    const output = new Float32Array(SAMPLE_RATE * 0.02);
+    engine.render(output, 0);
+
+    // The second (silent) note chokes the first with a 1ms fade
+    expect(Math.max(...output.slice(0, 480).map(Math.abs))).toBeCloseTo(0.5, 2);
+    expect(output.slice(480 + 48).every(sample => sample === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,246 @@
+import type { ChokeMode, LFOParams, OperatorParams, PitchEnvelopeParams } from './types';
+import type { FMRouting } from './fmRouting';
+import { getFeedbackIndex } from './feedback';
+import { getWaveFunction } from './waveforms';
+
+/**
+ * Sample-by-sample 4-operator FM voices, run inside the AudioWorklet engine (see fmProcessor.ts).
+ *
+ * Unlike the node-graph engine, operators are phase modulated per sample: a modulation adds the
+ * modulator's output times its index to the phase (so the index follows pitch envelope and LFO), and
+ * feedback modulates each operator with its own enveloped output, averaged over the previous two samples
+ * (see feedback.ts). Operators are computed in index order, so a modulator with a lower index acts within
+ * the same sample.
+ *
+ * Notes, note-offs and chokes are scheduled on the audio clock and applied at the exact sample.
+ */
+
+export const FM_PROCESSOR_NAME = 'fm-synth';
+
+// Everything a voice needs to play one note
+export interface FMNote {
+  baseFrequency: number;
+  duration: number; // Seconds until the release starts
+  operators: OperatorParams[];
+  routing: FMRouting;
+  lfo: LFOParams;
+  pitchEnvelope: PitchEnvelopeParams | null;
+  velocity: number;
+  chokeMode: ChokeMode;
+  voiceCount: number;
+}
+
+export type FMEngineEvent =
+  | { type: 'trigger'; time: number; note: FMNote }
+  | { type: 'noteoff'; time: number }
+  | { type: 'choke'; time: number };
+
+// Messages to the processor: engine events, a sync request (answered with 'synced'), or teardown
+export type FMProcessorMessage = FMEngineEvent | { type: 'sync'; id: number } | { type: 'dispose' };
+
+const OPERATOR_COUNT = 4;
+const TWO_PI = Math.PI * 2;
+const QUICK_FADE_TIME = 0.001; // Same cut fade as the node-graph engine
+
+// Voices kept per engine: the voice limit plus room for notes still fading out after a choke
+const VOICE_POOL_SIZE = 16;
+
+interface Voice {
+  active: boolean;
+  note: FMNote | null;
+  startTime: number;
+  releaseTime: number; // When the envelopes start releasing (note end or note-off)
+  chokeTime: number; // When the quick fade starts (Infinity = not choked)
+  endTime: number;
+  phases: Float64Array; // Operator phases, in cycles
+  waves: ((phase: number) => number)[]; // Operator waveforms of the note
+  outputs: Float64Array; // Operator outputs of the last sample, after level and velocity
+  feedback: Float64Array; // Operator outputs of the last two samples, before level and velocity (2 per operator)
+  lfoPhase: number;
+}
+
+function createVoice(): Voice {
+  return {
+    active: false,
+    note: null,
+    startTime: 0,
+    releaseTime: 0,
+    chokeTime: Infinity,
+    endTime: 0,
+    phases: new Float64Array(OPERATOR_COUNT),
+    waves: [],
+    outputs: new Float64Array(OPERATOR_COUNT),
+    feedback: new Float64Array(OPERATOR_COUNT * 2),
+    lfoPhase: 0,
+  };
+}
+
+// Attack (0 -> 1), decay (1 -> sustain) and sustain level `elapsed` seconds into the note
+function getHeldEnvelope(op: OperatorParams, elapsed: number): number {
+  if (elapsed < op.attack) {
+    return elapsed / op.attack;
+  }
+  if (elapsed < op.attack + op.decay) {
+    return 1 + ((op.sustain - 1) * (elapsed - op.attack)) / op.decay;
+  }
+  return op.sustain;
+}
+
+// Envelope at `time` including the release, which starts from wherever the envelope was
+function getReleasedEnvelope(op: OperatorParams, voice: Voice, time: number): number {
+  if (time < voice.releaseTime) {
+    return getHeldEnvelope(op, time - voice.startTime);
+  }
+  const releaseLevel = getHeldEnvelope(op, voice.releaseTime - voice.startTime);
+  return op.release > 0 ? releaseLevel * Math.max(0, 1 - (time - voice.releaseTime) / op.release) : 0;
+}
+
+function getEnvelope(op: OperatorParams, voice: Voice, time: number): number {
+  if (time < voice.chokeTime) {
+    return getReleasedEnvelope(op, voice, time);
+  }
+  const chokeLevel = getReleasedEnvelope(op, voice, voice.chokeTime);
+  return chokeLevel * Math.max(0, 1 - (time - voice.chokeTime) / QUICK_FADE_TIME);
+}
+
+// Frequency multiplier of the pitch envelope: 1 + depth at the start, 1 + depth / 2 after the attack, 1 after the decay
+function getPitchFactor(envelope: PitchEnvelopeParams | null, elapsed: number): number {
+  if (!envelope || envelope.depth <= 0) return 1;
+  const { attack, decay, depth } = envelope;
+  if (elapsed < attack) {
+    return 1 + depth * (1 - (0.5 * elapsed) / attack);
+  }
+  if (elapsed < attack + decay) {
+    return 1 + depth * 0.5 * (1 - (elapsed - attack) / decay);
+  }
+  return 1;
+}
+
+export class FMVoiceEngine {
+  private sampleRate: number;
+  private voices: Voice[] = Array.from({ length: VOICE_POOL_SIZE }, createVoice);
+  private events: FMEngineEvent[] = [];
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  // Queue an event; events are applied in time order, at the first sample at or after their time
+  schedule(event: FMEngineEvent) {
+    const index = this.events.findIndex(queued => queued.time > event.time);
+    this.events.splice(index < 0 ? this.events.length : index, 0, event);
+  }
+
+  // Render the sum of all voices into `output`, whose first sample plays at `startTime` on the audio clock
+  render(output: Float32Array, startTime: number) {
+    for (let i = 0; i < output.length; i++) {
+      const time = startTime + i / this.sampleRate;
+      while (this.events.length > 0 && this.events[0].time <= time) {
+        this.apply(this.events.shift()!, time);
+      }
+
+      let sample = 0;
+      for (const voice of this.voices) {
+        if (voice.active) {
+          sample += this.renderVoice(voice, time);
+        }
+      }
+      output[i] = sample;
+    }
+  }
+
+  private apply(event: FMEngineEvent, time: number) {
+    switch (event.type) {
+      case 'trigger':
+        this.startNote(event.note, time);
+        break;
+      case 'noteoff':
+        for (const voice of this.voices) {
+          if (voice.active && time < voice.releaseTime) {
+            voice.releaseTime = time;
+            voice.endTime = Math.min(voice.endTime, time + Math.max(...voice.note!.operators.map(op => op.release)));
+          }
+        }
+        break;
+      case 'choke':
+        for (const voice of this.voices) {
+          if (voice.active) {
+            this.chokeVoice(voice, time);
+          }
+        }
+        break;
+    }
+  }
+
+  // Mono cuts every sounding note; poly only steals the oldest once all voices are in use
+  private startNote(note: FMNote, time: number) {
+    const sounding = this.voices
+      .filter(voice => voice.active && voice.chokeTime > time)
+      .sort((a, b) => a.startTime - b.startTime);
+    const maxSounding = note.chokeMode === 'poly' ? note.voiceCount - 1 : 0;
+    sounding.slice(0, Math.max(0, sounding.length - maxSounding)).forEach(voice => this.chokeVoice(voice, time));
+
+    const voice =
+      this.voices.find(v => !v.active) ??
+      this.voices.reduce((oldest, v) => (v.startTime < oldest.startTime ? v : oldest));
+    const maxRelease = Math.max(...note.operators.map(op => op.release));
+
+    voice.active = true;
+    voice.note = note;
+    voice.startTime = time;
+    voice.releaseTime = time + note.duration;
+    voice.chokeTime = Infinity;
+    voice.endTime = voice.releaseTime + maxRelease;
+    voice.phases.fill(0);
+    voice.waves = note.operators.map(op => getWaveFunction(op.waveform, op.harmonics));
+    voice.outputs.fill(0);
+    voice.feedback.fill(0);
+    voice.lfoPhase = 0;
+  }
+
+  private chokeVoice(voice: Voice, time: number) {
+    if (voice.chokeTime <= time) return;
+    voice.chokeTime = time;
+    voice.endTime = Math.min(voice.endTime, time + QUICK_FADE_TIME);
+  }
+
+  private renderVoice(voice: Voice, time: number): number {
+    const note = voice.note!;
+    if (time >= voice.endTime) {
+      voice.active = false;
+      return 0;
+    }
+
+    const elapsed = time - voice.startTime;
+    const lfo = note.lfo.depth > 0 ? Math.sin(TWO_PI * voice.lfoPhase) * note.lfo.depth * note.baseFrequency : 0;
+    voice.lfoPhase = (voice.lfoPhase + note.lfo.frequency / this.sampleRate) % 1;
+    const pitch = getPitchFactor(note.pitchEnvelope, elapsed);
+
+    for (let i = 0; i < OPERATOR_COUNT; i++) {
+      const op = note.operators[i];
+      const frequency = note.baseFrequency * op.ratio * pitch + lfo;
+
+      const previous = voice.feedback[i * 2];
+      let phaseOffset = (getFeedbackIndex(op.feedbackAmount) * (previous + voice.feedback[i * 2 + 1])) / 2;
+      for (const { from, to, index } of note.routing.modulations) {
+        if (to === i) {
+          phaseOffset += voice.outputs[from] * index;
+        }
+      }
+
+      const output = voice.waves[i](TWO_PI * voice.phases[i] + phaseOffset) * getEnvelope(op, voice, time);
+      voice.feedback[i * 2] = output;
+      voice.feedback[i * 2 + 1] = previous;
+      voice.outputs[i] = output * op.level * note.velocity;
+
+      const phase = voice.phases[i] + frequency / this.sampleRate;
+      voice.phases[i] = phase - Math.floor(phase);
+    }
+
+    let sample = 0;
+    for (const carrier of note.routing.carriers) {
+      sample += voice.outputs[carrier];
+    }
+    return sample;
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { createGroove, extractGroove, getGrooveHit } from './groove';
+import { createDefaultTracks } from './presets';
+
+const noRandom = () => 0.5;
+
+describe('Groove', () => {
+  it('should delay the off-beats for MPC swing and triplet feel', () => {
+    const offsets = (groove: ReturnType<typeof createGroove>) =>
+      [0, 1, 2, 3, 4].map(step => getGrooveHit(groove, step, noRandom).offset);
+
+    expect(offsets({ ...createGroove('swing'), swing: 75, resolution: 16 })).toEqual([0, 0.5, 0, 0.5, 0]);
+    expect(offsets({ ...createGroove('swing'), swing: 50, resolution: 16 })).toEqual([0, 0, 0, 0, 0]);
+    expect(offsets({ ...createGroove('swing'), swing: 75, resolution: 8 })).toEqual([0, 0.5, 1, 0.5, 0]);
+    expect(getGrooveHit({ ...createGroove('triplet'), resolution: 16 }, 1, noRandom).offset).toBeCloseTo(1 / 3);
+    expect(getGrooveHit(null, 1, noRandom)).toEqual({ offset: 0, velocity: 1 });
+  });
+
+  it('should extract a custom groove from a track and repeat it', () => {
+    const track = createDefaultTracks()[2];
+    track.patternLength = 4;
+    track.steps = [true, true, false, true];
+    track.nudgeMap = [0, 0.2, 0.4, -0.1];
+    track.velocityMap = [1, 0.5, 0.8, 0.7];
+
+    const groove = extractGroove(track);
+    expect(groove.timing).toEqual([0, 0.2, 0, -0.1]);
+    expect(groove.velocity).toEqual([1, 0.5, 1, 0.7]);
+    expect(getGrooveHit(groove, 5, noRandom)).toEqual({ offset: 0.2, velocity: 0.5 });
+  });
+});
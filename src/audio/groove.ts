@@ -0,0 +1,116 @@
+import type { TrackData } from '../components/Sequencer';
+import { MAX_NUDGE } from './patterns';
+import type { RandomSource } from '../utils/random';
+
+/**
+ * Groove templates: timing and velocity feel applied on top of the programmed steps.
+ *
+ * A groove shifts each step by a fraction of a step and scales its velocity. It is set for the
+ * whole project and can be overridden per track. Grooves follow the transport step, so tracks
+ * of different lengths still swing against the same grid.
+ */
+
+export type GrooveTemplate = 'none' | 'swing' | 'triplet' | 'drunk' | 'custom';
+
+// Note value that swings: 8 = off-beat 8ths, 16 = off-beat 16ths
+export type GrooveResolution = 8 | 16;
+
+export interface Groove {
+  template: GrooveTemplate;
+  swing: number; // MPC-style swing, 50 (straight) - 75 (%), for 'swing'
+  resolution: GrooveResolution; // For 'swing' and 'triplet'
+  humanize: number; // 0-1, random timing/velocity amount for 'drunk'
+  timing: number[]; // 'custom': offset per step (fraction of a step), repeating
+  velocity: number[]; // 'custom': velocity scale per step (0-1), repeating
+}
+
+export interface GrooveHit {
+  offset: number; // Fraction of a step
+  velocity: number; // Velocity scale
+}
+
+export const GROOVE_TEMPLATES: GrooveTemplate[] = ['none', 'swing', 'triplet', 'drunk', 'custom'];
+
+export const GROOVE_TEMPLATE_LABELS: Record<GrooveTemplate, string> = {
+  none: 'None',
+  swing: 'MPC Swing',
+  triplet: 'Triplet',
+  drunk: 'Drunk',
+  custom: 'Custom',
+};
+
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+
+// Triplet feel is the swing where the off-beat lands on the last triplet (2/3 of the pair)
+const TRIPLET_SWING = (2 / 3) * 100;
+
+// Largest random shift of a 'drunk' groove, as a fraction of a step
+const MAX_DRUNK_SHIFT = 0.25;
+
+// Largest random velocity drop of a 'drunk' groove
+const MAX_DRUNK_VELOCITY = 0.3;
+
+// Longest custom groove (steps)
+export const MAX_GROOVE_LENGTH = 64;
+
+// How far any groove can move a step early / late (fraction of a step); used to schedule far enough ahead
+// and to size render tails. The latest step is the off-beat 8th at 75% swing.
+export const MAX_GROOVE_LEAD = MAX_NUDGE;
+export const MAX_GROOVE_DELAY = 1;
+
+export function createGroove(template: GrooveTemplate = 'none'): Groove {
+  return { template, swing: 60, resolution: 16, humanize: 0.5, timing: [], velocity: [] };
+}
+
+// Delay of the swung steps for a swing percentage. The pair of notes spans 1 step (16ths) or
+// 2 steps (8ths); the 16ths in between 8ths move half as far so their spacing stays even.
+function getSwingOffset(step: number, swing: number, resolution: GrooveResolution): number {
+  const pairSteps = resolution === 16 ? 2 : 4;
+  const halfPair = pairSteps / 2;
+  const delay = ((Math.max(MIN_SWING, Math.min(MAX_SWING, swing)) - 50) / 50) * halfPair;
+
+  const position = step % pairSteps;
+  if (position <= halfPair) {
+    return (delay * position) / halfPair;
+  }
+  return (delay * (pairSteps - position)) / halfPair;
+}
+
+// Timing and velocity of transport step `step` under the groove. The random source is only consulted by 'drunk'.
+export function getGrooveHit(groove: Groove | null | undefined, step: number, random: RandomSource): GrooveHit {
+  switch (groove?.template) {
+    case 'swing':
+      return { offset: getSwingOffset(step, groove.swing, groove.resolution), velocity: 1 };
+    case 'triplet':
+      return { offset: getSwingOffset(step, TRIPLET_SWING, groove.resolution), velocity: 1 };
+    case 'drunk': {
+      const amount = Math.max(0, Math.min(1, groove.humanize));
+      return {
+        offset: (random() * 2 - 1) * amount * MAX_DRUNK_SHIFT,
+        velocity: 1 - random() * amount * MAX_DRUNK_VELOCITY,
+      };
+    }
+    case 'custom': {
+      const length = groove.timing.length;
+      if (length === 0) break;
+      return {
+        offset: Math.max(-MAX_NUDGE, Math.min(MAX_NUDGE, groove.timing[step % length] ?? 0)),
+        velocity: groove.velocity[step % length] ?? 1,
+      };
+    }
+  }
+  return { offset: 0, velocity: 1 };
+}
+
+// Capture a track's programmed feel (micro-timing and velocity of its enabled steps) as a custom groove
+export function extractGroove(track: TrackData): Groove {
+  const length = Math.min(MAX_GROOVE_LENGTH, track.patternLength);
+  const timing: number[] = [];
+  const velocity: number[] = [];
+  for (let i = 0; i < length; i++) {
+    timing.push(track.steps[i] ? (track.nudgeMap[i] ?? 0) : 0);
+    velocity.push(track.steps[i] ? (track.velocityMap[i] ?? 1) : 1);
+  }
+  return { ...createGroove('custom'), timing, velocity };
+}
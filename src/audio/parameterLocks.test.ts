@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { applyParameterLock, hasLockedValues, recordParameterLock } from './parameterLocks';
+import type { LockableParams } from './parameterLocks';
+
+function createParams(): LockableParams {
+  const op = { frequency: 440, ratio: 1, level: 0.5, attack: 0.01, decay: 0.2, sustain: 0.3, release: 0.2, feedbackAmount: 0, modIndex: 2, waveform: 'sine' as const, harmonics: [1] };
+  return {
+    operators: [op, { ...op, ratio: 2 }, { ...op, ratio: 3 }, { ...op, ratio: 4 }],
+    lfo: { frequency: 5, depth: 1 },
+    pitchEnvelope: { attack: 0.01, decay: 0.1, depth: 0.5 },
+    algorithm: 'serial',
+    noteLength: 1,
+  };
+}
+
+describe('Parameter locks', () => {
+  it('should merge only the locked fields', () => {
+    const params = createParams();
+    const locked = applyParameterLock(params, {
+      operators: { 1: { level: 0.9 } },
+      lfo: { depth: 3 },
+      algorithm: 'parallel',
+    });
+
+    expect(locked.operators[1]).toEqual({ ...params.operators[1], level: 0.9 });
+    expect(locked.operators[0]).toEqual(params.operators[0]);
+    expect(locked.lfo).toEqual({ frequency: 5, depth: 3 });
+    expect(locked.pitchEnvelope).toEqual(params.pitchEnvelope);
+    expect(locked.algorithm).toBe('parallel');
+    expect(locked.noteLength).toBe(1);
+  });
+
+  it('should record edits into the existing lock', () => {
+    const params = createParams();
+    const lock = { operators: { 0: { ratio: 1.5 } } };
+    const before = applyParameterLock(params, lock);
+    const after = {
+      ...before,
+      operators: before.operators.map((op, i) => (i === 2 ? { ...op, decay: 0.8 } : op)),
+      noteLength: 2,
+    };
+
+    const recorded = recordParameterLock(lock, before, after);
+
+    expect(recorded).toEqual({ operators: { 0: { ratio: 1.5 }, 2: { decay: 0.8 } }, noteLength: 2 });
+    expect(hasLockedValues(recorded)).toBe(true);
+    expect(hasLockedValues({ operators: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import type { FMAlgorithm, LFOParams, OperatorParams, ParameterLock, PitchEnvelopeParams } from './types';
+
+/**
+ * Parameter locks: merging per-step overrides into the track sound for playback,
+ * and recording knob edits made while a step is selected for locking.
+ */
+
+// The part of a track's sound that can be locked per step
+export interface LockableParams {
+  operators: OperatorParams[];
+  lfo: LFOParams;
+  pitchEnvelope: PitchEnvelopeParams;
+  algorithm: FMAlgorithm;
+  noteLength: number;
+}
+
+// Track sound with the step's lock applied
+export function applyParameterLock(params: LockableParams, lock: ParameterLock | undefined): LockableParams {
+  if (!lock) {
+    return {
+      operators: params.operators,
+      lfo: params.lfo,
+      pitchEnvelope: params.pitchEnvelope,
+      algorithm: params.algorithm,
+      noteLength: params.noteLength,
+    };
+  }
+
+  return {
+    operators: params.operators.map((op, i) => ({ ...op, ...lock.operators?.[i] })),
+    lfo: { ...params.lfo, ...lock.lfo },
+    pitchEnvelope: { ...params.pitchEnvelope, ...lock.pitchEnvelope },
+    algorithm: lock.algorithm ?? params.algorithm,
+    noteLength: lock.noteLength ?? params.noteLength,
+  };
+}
+
+// Copy the fields of `after` that differ from `before` into `target`
+function diffInto<T extends object>(target: Partial<T> | undefined, before: T, after: T): Partial<T> | undefined {
+  let result = target;
+  for (const key of Object.keys(after) as (keyof T)[]) {
+    if (after[key] !== before[key]) {
+      result = { ...result, [key]: after[key] };
+    }
+  }
+  return result;
+}
+
+// Add the changes between two versions of the locked sound to the lock
+export function recordParameterLock(
+  lock: ParameterLock | undefined,
+  before: LockableParams,
+  after: LockableParams
+): ParameterLock {
+  const result: ParameterLock = { ...lock };
+
+  after.operators.forEach((op, i) => {
+    const operatorLock = diffInto(lock?.operators?.[i], before.operators[i], op);
+    if (operatorLock) {
+      result.operators = { ...result.operators, [i]: operatorLock };
+    }
+  });
+
+  const lfo = diffInto(lock?.lfo, before.lfo, after.lfo);
+  if (lfo) result.lfo = lfo;
+
+  const pitchEnvelope = diffInto(lock?.pitchEnvelope, before.pitchEnvelope, after.pitchEnvelope);
+  if (pitchEnvelope) result.pitchEnvelope = pitchEnvelope;
+
+  if (after.algorithm !== before.algorithm) result.algorithm = after.algorithm;
+  if (after.noteLength !== before.noteLength) result.noteLength = after.noteLength;
+
+  return result;
+}
+
+// Whether a lock overrides anything
+export function hasLockedValues(lock: ParameterLock | undefined): boolean {
+  if (!lock) return false;
+  return (
+    Object.values(lock.operators ?? {}).some(op => op && Object.keys(op).length > 0) ||
+    Object.keys(lock.lfo ?? {}).length > 0 ||
+    Object.keys(lock.pitchEnvelope ?? {}).length > 0 ||
+    lock.algorithm !== undefined ||
+    lock.noteLength !== undefined
+  );
+}
@@ -0,0 +1,123 @@
+import type { TrackData } from '../components/Sequencer';
+import type { ParameterLocks, StepTrigs } from './types';
+
+/**
+ * Pattern bank.
+ *
+ * A project holds PATTERN_COUNT patterns that share the track sounds. Each track keeps the
+ * pattern being played/edited in its live fields (steps, pitchMap, velocityMap, nudgeMap, patternLength, parameterLocks, stepTrigs)
+ * and the other patterns in `patterns`. The bank slot of the active pattern is only brought up
+ * to date when switching away from it, so use getPatternBank() to read a complete bank.
+ */
+
+// Longest pattern a track can have; steps/pitchMap/velocityMap/nudgeMap always hold this many entries
+export const MAX_STEPS = 128;
+export const DEFAULT_STEP_COUNT = 16;
+
+// Per-step micro-timing range, as a fraction of a step in either direction
+export const MAX_NUDGE = 0.5;
+
+export const PATTERN_COUNT = 16;
+
+export interface TrackPattern {
+  steps: boolean[];
+  pitchMap: number[];
+  velocityMap: number[];
+  nudgeMap: number[]; // Micro-timing offset per step, as a fraction of a step (-MAX_NUDGE - MAX_NUDGE)
+  patternLength: number;
+  parameterLocks: ParameterLocks;
+  stepTrigs: StepTrigs;
+}
+
+// Clamp a step count to the supported range (1 - MAX_STEPS)
+export function clampStepCount(value: number): number {
+  return Math.max(1, Math.min(MAX_STEPS, Math.round(value) || 1));
+}
+
+// Extend per-step data (steps, pitchMap, velocityMap, nudgeMap) saved with fewer entries to MAX_STEPS
+export function padToMaxSteps<T>(values: T[] | undefined, fill: T): T[] {
+  const result = (values ?? []).slice(0, MAX_STEPS);
+  while (result.length < MAX_STEPS) {
+    result.push(fill);
+  }
+  return result;
+}
+
+// Bank slot name: A, B, C ... P
+export function getPatternLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+export function createEmptyPattern(patternLength: number = DEFAULT_STEP_COUNT): TrackPattern {
+  return {
+    steps: new Array(MAX_STEPS).fill(false),
+    pitchMap: new Array(MAX_STEPS).fill(1),
+    velocityMap: new Array(MAX_STEPS).fill(1),
+    nudgeMap: new Array(MAX_STEPS).fill(0),
+    patternLength,
+    parameterLocks: {},
+    stepTrigs: {},
+  };
+}
+
+export function createPatternBank(patternLength: number = DEFAULT_STEP_COUNT): TrackPattern[] {
+  return Array.from({ length: PATTERN_COUNT }, () => createEmptyPattern(patternLength));
+}
+
+// Bring a bank restored from storage to PATTERN_COUNT full-size patterns
+export function normalizePatternBank(patterns: Partial<TrackPattern>[] | undefined, patternLength: number): TrackPattern[] {
+  return Array.from({ length: PATTERN_COUNT }, (_, i) => {
+    const pattern = patterns?.[i];
+    return {
+      steps: padToMaxSteps(pattern?.steps, false),
+      pitchMap: padToMaxSteps(pattern?.pitchMap, 1),
+      velocityMap: padToMaxSteps(pattern?.velocityMap, 1),
+      nudgeMap: padToMaxSteps(pattern?.nudgeMap, 0),
+      patternLength: clampStepCount(pattern?.patternLength ?? patternLength),
+      parameterLocks: pattern?.parameterLocks ?? {},
+      stepTrigs: pattern?.stepTrigs ?? {},
+    };
+  });
+}
+
+export function isPatternEmpty(pattern: TrackPattern): boolean {
+  return !pattern.steps.slice(0, pattern.patternLength).some(Boolean);
+}
+
+// The pattern currently held in the track's live fields
+export function getLivePattern(track: TrackData): TrackPattern {
+  return {
+    steps: track.steps,
+    pitchMap: track.pitchMap,
+    velocityMap: track.velocityMap,
+    nudgeMap: track.nudgeMap,
+    patternLength: track.patternLength,
+    parameterLocks: track.parameterLocks,
+    stepTrigs: track.stepTrigs,
+  };
+}
+
+// All patterns of the track, with the active slot taken from the live fields
+export function getPatternBank(track: TrackData, activePattern: number): TrackPattern[] {
+  return track.patterns.map((pattern, i) => (i === activePattern ? getLivePattern(track) : pattern));
+}
+
+// Replace the live pattern without touching the bank (e.g. paste or clear)
+export function loadPattern(track: TrackData, pattern: TrackPattern): TrackData {
+  return {
+    ...track,
+    steps: [...pattern.steps],
+    pitchMap: [...pattern.pitchMap],
+    velocityMap: [...pattern.velocityMap],
+    nudgeMap: [...pattern.nudgeMap],
+    patternLength: pattern.patternLength,
+    parameterLocks: { ...pattern.parameterLocks },
+    stepTrigs: { ...pattern.stepTrigs },
+  };
+}
+
+// Store the live pattern in slot `from` and make slot `to` live
+export function switchPattern(track: TrackData, from: number, to: number): TrackData {
+  const patterns = getPatternBank(track, from);
+  return loadPattern({ ...track, patterns }, patterns[to]);
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { playStep } from './playback';
+import type { LoopCounters } from './playback';
+import { createDefaultTracks } from './presets';
+import { MAX_STEPS } from './patterns';
+
+describe('Playback', () => {
+  it('should count conditional trig loops per track from the start of each run', () => {
+    const [kick] = createDefaultTracks();
+    kick.activeSynth = null;
+    kick.patternLength = 4;
+    kick.steps = new Array(MAX_STEPS).fill(false).map((_, i) => i === 0);
+    kick.stepTrigs = { 0: { condition: 'first' } };
+
+    // Transport steps at which the kick fires
+    const play = (from: number, to: number, loopCounters: LoopCounters) => {
+      const hits: number[] = [];
+      for (let step = from; step < to; step++) {
+        playStep([kick], step, 0.1, step, { loopCounters, onTrigger: () => hits.push(step) });
+      }
+      return hits;
+    };
+
+    expect(play(0, 16, new Map())).toEqual([0]);
+    // Stopped at step 6 and restarted: the count starts over on the next downbeat
+    expect(play(6, 16, new Map())).toEqual([8]);
+
+    kick.stepTrigs = { 0: { condition: '2:2' } };
+    expect(play(6, 24, new Map())).toEqual([12, 20]);
+  });
+});
@@ -0,0 +1,235 @@
+import type { TrackData } from '../components/Sequencer';
+import { holdValueAtTime } from './automation';
+import { FMSynth } from './FMSynth';
+import type { FMEngine } from './FMSynth';
+import { applyParameterLock } from './parameterLocks';
+import type { LockableParams } from './parameterLocks';
+import { getRatchetHits } from './ratchets';
+import { getGrooveHit } from './groove';
+import type { Groove } from './groove';
+import { shouldTrigger } from './trigConditions';
+import type { RandomSource } from '../utils/random';
+
+/**
+ * Shared playback helpers used by both the live sequencer and the offline renderer,
+ * so that exported audio matches what is heard in the browser.
+ */
+
+// Choke groups 1-7 (0 = no group), e.g. closed hat cutting the open hat
+export const CHOKE_GROUP_COUNT = 7;
+
+// Duration of one 16th-note step in seconds
+export function getBaseStepDuration(bpm: number): number {
+  return 60 / bpm / 4;
+}
+
+// Duration until the next step, with shuffle applied.
+// Shuffle value 0-1: 0 = no swing, 1 = max swing (triplet feel).
+// Every odd 16th note (1, 3, 5, 7, etc.) gets delayed, and the following even step compensates.
+export function getStepDuration(step: number, baseDuration: number, shuffle: number): number {
+  if (shuffle <= 0) {
+    return baseDuration;
+  }
+
+  if (step % 2 === 0) {
+    // Current step is even (0, 2, 4...), next will be odd - add swing delay
+    return baseDuration * (1 + shuffle * 0.5); // Up to 1.5x duration for full shuffle
+  }
+
+  // Current step is odd (1, 3, 5...), next will be even - subtract to compensate
+  return baseDuration * (1 - shuffle * 0.5); // Down to 0.5x duration
+}
+
+// Loop count of each track (by id) in a playback run; every run starts with an empty one (see countLoop)
+export type LoopCounters = Map<number, number>;
+
+// Conditions shared by every step of a playback run
+export interface TrigOptions {
+  loopCounters: LoopCounters; // The run's loop counters, updated as its steps are played
+  fill?: boolean; // Fill mode, for 'fill' / 'not fill' conditions
+  random?: RandomSource; // Source for step probability and humanize; pass a seeded one for reproducible renders
+  groove?: Groove | null; // Project groove, for tracks without their own
+  mutedTrackIds?: number[]; // Tracks muted for this run only (e.g. by the playing song section), on top of their own mutes
+  onTrigger?: (track: TrackData, time: number, velocity: number) => void; // Called for every step that fires (e.g. MIDI note out)
+}
+
+// Position inside the track's own pattern for a transport step (each track loops on its own length)
+export function getTrackStep(track: TrackData, step: number): number {
+  return step % Math.max(1, track.patternLength);
+}
+
+// Loop of the track that its step `trackStep` belongs to. Loop 0 starts with the run and the track's loop count
+// goes up whenever it comes back to its first step after having played it, so a run that resumes mid-pattern
+// starts counting on the track's next downbeat
+export function countLoop(loopCounters: LoopCounters, track: TrackData, trackStep: number): number {
+  const loop = loopCounters.get(track.id);
+  if (trackStep === 0) {
+    loopCounters.set(track.id, loop === undefined ? 0 : loop + 1);
+  }
+  return loopCounters.get(track.id) ?? 0;
+}
+
+// Whether a track produces a note on the given step of its pattern
+export function isStepActive(track: TrackData, step: number): boolean {
+  return !!track.steps[step] && !track.isMuted;
+}
+
+// Trigger the track's synth for one step using its per-step pitch/velocity, parameter locks, ratchets and enabled modulators.
+// `when` is the step's start time on the audio clock; `velocityScale` applies the groove's accent.
+export function triggerTrackStep(
+  track: TrackData,
+  step: number,
+  baseDuration: number,
+  when: number,
+  velocityScale: number = 1
+) {
+  if (!track.activeSynth) return;
+
+  // Sound for this step with its parameter lock merged in
+  const params = applyParameterLock(track, track.parameterLocks[step]);
+
+  const pitchMultiplier = track.pitchEnabled ? (track.pitchMap[step] || 1) : 1;
+  const adjustedFrequency = track.frequency * pitchMultiplier;
+
+  // Get velocity for this step
+  const velocity = (track.velocityMap[step] || 1) * velocityScale;
+
+  // Ratchets split the step into several hits, each note shortened to match
+  const hits = getRatchetHits(track.stepTrigs[step], baseDuration, velocity);
+
+  // Use note length setting (in steps)
+  const noteDuration = (baseDuration * params.noteLength) / hits.length;
+
+  for (const hit of hits) {
+    triggerSynth(track, params, adjustedFrequency, noteDuration, hit.velocity, when + hit.offset);
+  }
+}
+
+// Trigger the track's synth with the given sound, applying only the modulators enabled on the track
+function triggerSynth(
+  track: TrackData,
+  params: LockableParams,
+  frequency: number,
+  duration: number,
+  velocity: number,
+  when: number
+) {
+  if (!track.activeSynth) return;
+
+  // Apply LFO only if enabled
+  const effectiveLfo = track.lfoEnabled ? params.lfo : { frequency: 0, depth: 0 };
+
+  // Apply pitch envelope only if enabled
+  const effectivePitchEnv = track.pitchEnabled ? params.pitchEnvelope : undefined;
+
+  // Reuse the same synth instance; its voice pool decides whether earlier notes are choked
+  track.activeSynth.setPolyphony(track.voiceCount, track.chokeMode);
+  track.activeSynth.setModulationMatrix(track.modulationMatrix);
+  track.activeSynth.trigger(
+    frequency,
+    duration,
+    params.operators,
+    effectiveLfo,
+    params.algorithm,
+    effectivePitchEnv,
+    velocity,
+    when
+  );
+}
+
+// Play a track's sound directly (e.g. from a MIDI pad) at `time`, without per-step data,
+// including choke groups and CH1 ducking
+export function playTrackNote(tracks: TrackData[], track: TrackData, velocity: number, baseDuration: number, time: number) {
+  if (track.isMuted) return;
+
+  triggerChokeGroup(tracks, track, time);
+  triggerSynth(track, track, track.frequency, baseDuration * track.noteLength, velocity, time);
+
+  if (tracks.indexOf(track) === 0) {
+    triggerDucking(tracks, time);
+  }
+}
+
+// Build a track's audio graph: its own synth routed through a ducking gain (unity until CH1 ducks it)
+export function createTrackAudio(
+  audioContext: BaseAudioContext,
+  track: TrackData,
+  withDucking: boolean = true,
+  engine: FMEngine = 'nodes'
+): TrackData {
+  const synth = new FMSynth(audioContext, audioContext.destination, engine);
+  let duckingGain: GainNode | null = null;
+  if (withDucking) {
+    duckingGain = audioContext.createGain();
+    duckingGain.gain.value = 1; // No ducking initially
+    synth.connectSidechainGain(duckingGain);
+  }
+  return { ...track, activeSynth: synth, duckingGain };
+}
+
+// Tear down the audio graph created by createTrackAudio
+export function releaseTrackAudio(track: TrackData) {
+  track.activeSynth?.disconnect();
+  track.duckingGain?.disconnect();
+}
+
+// Duck every track that has ducking enabled (called when CH1, the first track, plays) starting at `currentTime` on the audio clock
+export function triggerDucking(tracks: TrackData[], currentTime: number) {
+  tracks.forEach((track, index) => {
+    if (index > 0 && track.duckingEnabled && track.duckingGain) {
+      const releaseTime = track.duckingRelease;
+      const duckAmount = track.duckingAmount;
+
+      // Instant duck down
+      holdValueAtTime(track.duckingGain.gain, currentTime);
+      track.duckingGain.gain.linearRampToValueAtTime(duckAmount, currentTime + 0.001);
+
+      // Release back to 1.0
+      track.duckingGain.gain.linearRampToValueAtTime(1.0, currentTime + 0.001 + releaseTime);
+    }
+  });
+}
+
+// Cut the notes of every other track sharing the firing track's choke group
+export function triggerChokeGroup(tracks: TrackData[], firingTrack: TrackData, time: number) {
+  if (!firingTrack.chokeGroup) return;
+
+  tracks.forEach(track => {
+    if (track !== firingTrack && track.chokeGroup === firingTrack.chokeGroup) {
+      track.activeSynth?.choke(time);
+    }
+  });
+}
+
+// Play every track's note for transport step `step` at `time`, including choke groups and CH1 ducking.
+// Steps only fire when their condition and probability pass; the loop counter is per track.
+// Each step is moved by its micro-timing offset and the groove, so callers must schedule early enough for negative offsets.
+// Tracks without a synth (e.g. not part of a stem render) still choke and duck the others.
+export function playStep(
+  tracks: TrackData[],
+  step: number,
+  baseDuration: number,
+  time: number,
+  { loopCounters, fill = false, random = Math.random, groove = null, mutedTrackIds = [], onTrigger }: TrigOptions
+) {
+  tracks.forEach((track, index) => {
+    const trackStep = getTrackStep(track, step);
+    // Count every step, heard or not, so muting a track doesn't shift its conditions
+    const loop = countLoop(loopCounters, track, trackStep);
+    if (!isStepActive(track, trackStep) || mutedTrackIds.includes(track.id)) return;
+
+    if (!shouldTrigger(track.stepTrigs[trackStep], { loop, fill, random })) return;
+
+    const grooveHit = getGrooveHit(track.groove ?? groove, step, random);
+    const noteTime = time + ((track.nudgeMap[trackStep] ?? 0) + grooveHit.offset) * baseDuration;
+
+    triggerChokeGroup(tracks, track, noteTime);
+    triggerTrackStep(track, trackStep, baseDuration, noteTime, grooveHit.velocity);
+    onTrigger?.(track, noteTime, (track.velocityMap[trackStep] || 1) * grooveHit.velocity);
+
+    // Trigger ducking when CH1 (the first track) plays
+    if (index === 0) {
+      triggerDucking(tracks, noteTime);
+    }
+  });
+}
@@ -0,0 +1,212 @@
+import type { TrackData } from '../components/Sequencer';
+import type { FMAlgorithm, ChokeMode } from './types';
+import { MAX_STEPS, DEFAULT_STEP_COUNT, createPatternBank } from './patterns';
+import { createModulationMatrix } from './fmRouting';
+import { createHarmonics } from './waveforms';
+
+/**
+ * Default drum kit (sounds, starter pattern and UI state).
+ * Returned as fresh objects without audio nodes; the sequencer attaches synths when it adopts them.
+ */
+
+export const MAX_TRACKS = 16;
+
+// Longest track name kept in the UI and share URLs (characters)
+export const MAX_TRACK_NAME_LENGTH = 32;
+
+export function createDefaultTracks(): TrackData[] {
+  return [
+    {
+      id: 0,
+      name: 'Kick',
+      steps: new Array(MAX_STEPS).fill(false).map((_, i) => i % 4 === 0 && i < 16),
+      patternLength: DEFAULT_STEP_COUNT,
+      patterns: createPatternBank(),
+      parameterLocks: {},
+      stepTrigs: {},
+      frequency: 55,
+      operators: [
+        { frequency: 55, ratio: 1.57, level: 0.30846065929062844, attack: 0.001, decay: 0.2924691461314984, sustain: 0.3052622340820058, release: 0.23572082996985017, feedbackAmount: 0.5519581506267578, modIndex: 3.57, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 55, ratio: 1.48, level: 0.5927759298844391, attack: 0.001, decay: 0.09971183734862396, sustain: 0.15405327669189317, release: 0.33589217394922644, feedbackAmount: 0.7894718414985458, modIndex: 7.28, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 55, ratio: 2.33, level: 0.30651959266073736, attack: 0.001, decay: 0.17247350678078033, sustain: 0.010876614372196836, release: 0.2998970050614464, feedbackAmount: 0.31942793972654543, modIndex: 2.39, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 55, ratio: 1.88, level: 0.47632812369723265, attack: 0.001, decay: 0.15675361302425694, sustain: 0.33193765080781823, release: 0.08266122022775887, feedbackAmount: 0.2678397087736604, modIndex: 4.61, waveform: 'sine', harmonics: createHarmonics() },
+      ],
+      lfo: { frequency: 7.289716616269852, depth: 0.2644860006832155 },
+      algorithm: 'parallel' as FMAlgorithm,
+      modulationMatrix: createModulationMatrix(),
+      pitchEnvelope: { attack: 0.03263920787813766, decay: 0.0633337102583343, depth: 2 },
+      pitchMap: new Array(MAX_STEPS).fill(1),
+      velocityMap: new Array(MAX_STEPS).fill(1),
+      nudgeMap: new Array(MAX_STEPS).fill(0),
+      noteLength: 1.0,
+      chokeMode: 'mono' as ChokeMode,
+      voiceCount: 4,
+      chokeGroup: 0,
+      groove: null,
+      midiNote: 36, // GM Bass Drum 1
+      activeSynth: null,
+      lfoEnabled: true,
+      pitchEnabled: true,
+      pitchControlVisible: false,
+      velocityControlVisible: false,
+      nudgeControlVisible: false,
+      operatorsExpanded: false,
+      lfoExpanded: false,
+      pitchEnvExpanded: false,
+      duckingEnabled: false,
+      duckingGain: null,
+      duckingAmount: 0.3, // Duck to 30%
+      duckingRelease: 0.2, // 200ms release
+      isMuted: false,
+    },
+    {
+      id: 1,
+      name: 'Snare',
+      steps: new Array(MAX_STEPS).fill(false).map((_, i) => (i === 4 || i === 12) && i < 16),
+      patternLength: DEFAULT_STEP_COUNT,
+      patterns: createPatternBank(),
+      parameterLocks: {},
+      stepTrigs: {},
+      frequency: 200,
+      operators: [
+        { frequency: 200, ratio: 1.5, level: 0.7, attack: 0.001, decay: 0.08, sustain: 0.1, release: 0.15, feedbackAmount: 0.5, modIndex: 2.33, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 200, ratio: 2.3, level: 0.5, attack: 0.001, decay: 0.06, sustain: 0.05, release: 0.12, feedbackAmount: 0.4, modIndex: 1.09, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 200, ratio: 3.7, level: 0.3, attack: 0.001, decay: 0.04, sustain: 0.02, release: 0.08, feedbackAmount: 0.3, modIndex: 0.41, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 200, ratio: 5.1, level: 0.8, attack: 0.001, decay: 0.08, sustain: 0.1, release: 0.15, feedbackAmount: 0.2, modIndex: 0.78, waveform: 'sine', harmonics: createHarmonics() },
+      ],
+      lfo: { frequency: 10, depth: 0.05 },
+      algorithm: 'serial' as FMAlgorithm,
+      modulationMatrix: createModulationMatrix(),
+      pitchEnvelope: { attack: 0.01, decay: 0.03, depth: 0.3 },
+      pitchMap: new Array(MAX_STEPS).fill(1),
+      velocityMap: new Array(MAX_STEPS).fill(1),
+      nudgeMap: new Array(MAX_STEPS).fill(0),
+      noteLength: 1.0,
+      chokeMode: 'mono' as ChokeMode,
+      voiceCount: 4,
+      chokeGroup: 0,
+      groove: null,
+      midiNote: 38, // GM Acoustic Snare
+      activeSynth: null,
+      lfoEnabled: true,
+      pitchEnabled: true,
+      pitchControlVisible: false,
+      velocityControlVisible: false,
+      nudgeControlVisible: false,
+      operatorsExpanded: false,
+      lfoExpanded: false,
+      pitchEnvExpanded: false,
+      duckingEnabled: false,
+      duckingGain: null,
+      duckingAmount: 0.3,
+      duckingRelease: 0.2,
+      isMuted: false,
+    },
+    {
+      id: 2,
+      name: 'HiHat',
+      steps: new Array(MAX_STEPS).fill(false).map((_, i) => i % 2 === 0 && i < 16),
+      patternLength: DEFAULT_STEP_COUNT,
+      patterns: createPatternBank(),
+      parameterLocks: {},
+      stepTrigs: {},
+      frequency: 800,
+      operators: [
+        { frequency: 800, ratio: 2.1, level: 0.4, attack: 0.001, decay: 0.02, sustain: 0.0, release: 0.05, feedbackAmount: 0.7, modIndex: 0.24, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 800, ratio: 3.3, level: 0.3, attack: 0.001, decay: 0.015, sustain: 0.0, release: 0.04, feedbackAmount: 0.6, modIndex: 0.11, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 800, ratio: 4.7, level: 0.2, attack: 0.001, decay: 0.01, sustain: 0.0, release: 0.03, feedbackAmount: 0.5, modIndex: 0.05, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 800, ratio: 6.2, level: 0.7, attack: 0.001, decay: 0.02, sustain: 0.0, release: 0.05, feedbackAmount: 0.4, modIndex: 0.14, waveform: 'sine', harmonics: createHarmonics() },
+      ],
+      lfo: { frequency: 20, depth: 0.1 },
+      algorithm: 'parallel' as FMAlgorithm,
+      modulationMatrix: createModulationMatrix(),
+      pitchEnvelope: { attack: 0.005, decay: 0.02, depth: 0.2 },
+      pitchMap: new Array(MAX_STEPS).fill(1),
+      velocityMap: new Array(MAX_STEPS).fill(1),
+      nudgeMap: new Array(MAX_STEPS).fill(0),
+      noteLength: 0.5,
+      chokeMode: 'mono' as ChokeMode,
+      voiceCount: 4,
+      chokeGroup: 0,
+      groove: null,
+      midiNote: 42, // GM Closed Hi-Hat
+      activeSynth: null,
+      lfoEnabled: true,
+      pitchEnabled: false,
+      pitchControlVisible: false,
+      velocityControlVisible: false,
+      nudgeControlVisible: false,
+      operatorsExpanded: false,
+      lfoExpanded: false,
+      pitchEnvExpanded: false,
+      duckingEnabled: false,
+      duckingGain: null,
+      duckingAmount: 0.3,
+      duckingRelease: 0.2,
+      isMuted: false,
+    },
+    {
+      id: 3,
+      name: 'Tom',
+      steps: new Array(MAX_STEPS).fill(false),
+      patternLength: DEFAULT_STEP_COUNT,
+      patterns: createPatternBank(),
+      parameterLocks: {},
+      stepTrigs: {},
+      frequency: 110,
+      operators: [
+        { frequency: 110, ratio: 1.2, level: 0.7, attack: 0.001, decay: 0.15, sustain: 0.2, release: 0.2, feedbackAmount: 0.2, modIndex: 5.3, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 110, ratio: 1.8, level: 0.5, attack: 0.001, decay: 0.12, sustain: 0.15, release: 0.15, feedbackAmount: 0.1, modIndex: 2.53, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 110, ratio: 2.5, level: 0.3, attack: 0.001, decay: 0.1, sustain: 0.1, release: 0.1, feedbackAmount: 0.05, modIndex: 1.09, waveform: 'sine', harmonics: createHarmonics() },
+        { frequency: 110, ratio: 3.2, level: 0.8, attack: 0.001, decay: 0.15, sustain: 0.2, release: 0.2, feedbackAmount: 0, modIndex: 2.27, waveform: 'sine', harmonics: createHarmonics() },
+      ],
+      lfo: { frequency: 5, depth: 0.03 },
+      algorithm: 'hybrid1' as FMAlgorithm,
+      modulationMatrix: createModulationMatrix(),
+      pitchEnvelope: { attack: 0.02, decay: 0.1, depth: 0.4 },
+      pitchMap: new Array(MAX_STEPS).fill(1),
+      velocityMap: new Array(MAX_STEPS).fill(1),
+      nudgeMap: new Array(MAX_STEPS).fill(0),
+      noteLength: 2.0,
+      chokeMode: 'poly' as ChokeMode,
+      voiceCount: 4,
+      chokeGroup: 0,
+      groove: null,
+      midiNote: 45, // GM Low Tom
+      activeSynth: null,
+      lfoEnabled: true,
+      pitchEnabled: true,
+      pitchControlVisible: false,
+      velocityControlVisible: false,
+      nudgeControlVisible: false,
+      operatorsExpanded: false,
+      lfoExpanded: false,
+      pitchEnvExpanded: false,
+      duckingEnabled: false,
+      duckingGain: null,
+      duckingAmount: 0.3,
+      duckingRelease: 0.2,
+      isMuted: false,
+    },
+  ];
+}
+
+// A new, empty track: the Tom voice with no steps, so it is audible as soon as a step is set
+export function createTrack(id: number, name: string, patternLength: number = DEFAULT_STEP_COUNT): TrackData {
+  const template = createDefaultTracks()[3];
+  return {
+    ...template,
+    id,
+    name,
+    steps: new Array(MAX_STEPS).fill(false),
+    patternLength,
+    patterns: createPatternBank(patternLength),
+    parameterLocks: {},
+    stepTrigs: {},
+  };
+}
+
+// Smallest id not used by any of the given tracks
+export function nextTrackId(tracks: TrackData[]): number {
+  return tracks.reduce((max, track) => Math.max(max, track.id), -1) + 1;
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { getRatchetHits } from './ratchets';
+
+describe('Ratchets', () => {
+  it('should subdivide the step into evenly spaced hits', () => {
+    expect(getRatchetHits(undefined, 0.125, 0.8)).toEqual([{ offset: 0, velocity: 0.8 }]);
+    expect(getRatchetHits({ ratchet: 4 }, 0.2, 1).map(hit => Math.round(hit.offset * 1000))).toEqual([0, 50, 100, 150]);
+    expect(getRatchetHits({ ratchet: 3 }, 0.3, 0.5).map(hit => hit.velocity)).toEqual([0.5, 0.5, 0.5]);
+  });
+
+  it('should ramp the velocity up or down across the hits', () => {
+    expect(getRatchetHits({ ratchet: 4, ratchetRamp: 'up' }, 1, 1).map(hit => hit.velocity)).toEqual([0.25, 0.5, 0.75, 1]);
+    expect(getRatchetHits({ ratchet: 2, ratchetRamp: 'down' }, 1, 0.5).map(hit => hit.velocity)).toEqual([0.5, 0.25]);
+  });
+});
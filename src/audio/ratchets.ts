@@ -0,0 +1,36 @@
+import type { RatchetRamp, StepTrig } from './types';
+
+/**
+ * Ratchets: retrigger a step several times within its duration, e.g. for hi-hat rolls.
+ */
+
+export const RATCHET_COUNTS = [1, 2, 3, 4, 6, 8];
+
+export const RATCHET_RAMPS: RatchetRamp[] = ['none', 'up', 'down'];
+
+export interface RatchetHit {
+  offset: number; // Seconds after the step start
+  velocity: number;
+}
+
+// Number of hits for a step (1 when the step has no ratchet)
+export function getRatchetCount(trig: StepTrig | undefined): number {
+  return Math.max(1, Math.min(8, Math.round(trig?.ratchet ?? 1)));
+}
+
+// Split a step into evenly spaced hits. Ramps scale the velocity linearly
+// from 1/N up to full (or from full down to 1/N) across the N hits.
+export function getRatchetHits(trig: StepTrig | undefined, stepDuration: number, velocity: number): RatchetHit[] {
+  const count = getRatchetCount(trig);
+  const ramp = trig?.ratchetRamp ?? 'none';
+
+  return Array.from({ length: count }, (_, i) => {
+    let scale = 1;
+    if (count > 1 && ramp === 'up') {
+      scale = (i + 1) / count;
+    } else if (count > 1 && ramp === 'down') {
+      scale = (count - i) / count;
+    }
+    return { offset: (stepDuration * i) / count, velocity: velocity * scale };
+  });
+}
@@ -0,0 +1,125 @@
+import { createTrackAudio, getBaseStepDuration, getStepDuration, playStep } from './playback';
+import type { LoopCounters } from './playback';
+import { loadFMWorklet } from './FMSynth';
+import type { FMEngine } from './FMSynth';
+import type { TrackData } from '../components/Sequencer';
+import { MAX_NUDGE } from './patterns';
+import { MAX_GROOVE_DELAY } from './groove';
+import type { Groove } from './groove';
+import { createRandom } from '../utils/random';
+
+export interface RenderPatternOptions {
+  tracks: TrackData[];
+  bpm: number;
+  stepCount: number; // Master pattern length; one loop lasts this many steps
+  shuffle: number;
+  loops: number; // Number of times the pattern is repeated
+  sampleRate?: number;
+  includeTail?: boolean; // Append the release tail after the last loop instead of cutting at the loop point
+  soloTrackId?: number; // Render only this track's sound (the other tracks still drive ducking and choke groups)
+  ducking?: DuckingTap; // 'pre' prints the tracks without the CH1 ducking applied
+  seed?: number; // Seed for step probability; the same seed renders the same hits (and stems match the master)
+  fill?: boolean; // Render with fill mode on
+  groove?: Groove | null; // Project groove
+  engine?: FMEngine; // Synth engine, as selected for live playback
+}
+
+export type DuckingTap = 'pre' | 'post';
+
+export interface StemRender {
+  track: TrackData;
+  buffer: AudioBuffer;
+}
+
+const DEFAULT_SEED = 1;
+
+// Extra time rendered after the last step when the tail is included (compressor/limiter release)
+const TAIL_PADDING = 0.5;
+
+/**
+ * Render the pattern through the same FMSynth chain (compressor, limiter, ducking) on an OfflineAudioContext.
+ * Every note is scheduled up front at its exact step time, so the render is sample-accurate.
+ */
+export async function renderPattern({
+  tracks,
+  bpm,
+  stepCount,
+  shuffle,
+  loops,
+  sampleRate = 44100,
+  includeTail = false,
+  soloTrackId,
+  ducking = 'post',
+  seed = DEFAULT_SEED,
+  fill = false,
+  groove = null,
+  engine = 'nodes',
+}: RenderPatternOptions): Promise<AudioBuffer> {
+  const baseDuration = getBaseStepDuration(bpm);
+
+  // Compute the start time of every step across all loops (counted like the transport, so
+  // tracks with their own pattern lengths keep cycling across loop boundaries)
+  const stepEvents: { step: number; time: number }[] = [];
+  let time = 0;
+  for (let step = 0; step < stepCount * loops; step++) {
+    stepEvents.push({ step, time });
+    time += getStepDuration(step, baseDuration, shuffle);
+  }
+  const patternEnd = time;
+
+  let tail = 0;
+  if (includeTail) {
+    const longestNote = Math.max(
+      ...tracks.map(
+        // Notes of the last step can be nudged and grooved late
+        track =>
+          baseDuration * (track.noteLength + MAX_NUDGE + MAX_GROOVE_DELAY) + Math.max(...track.operators.map(op => op.release))
+      )
+    );
+    tail = longestNote + TAIL_PADDING;
+  }
+
+  const length = Math.max(1, Math.ceil((patternEnd + tail) * sampleRate));
+  const context = new OfflineAudioContext(2, length, sampleRate);
+  if (engine === 'worklet') {
+    await loadFMWorklet(context);
+  }
+
+  // Rebuild the per-track audio graph on the offline context (only for tracks that are heard)
+  const renderTracks: TrackData[] = tracks.map(track => {
+    if (soloTrackId !== undefined && track.id !== soloTrackId) {
+      return { ...track, activeSynth: null, duckingGain: null };
+    }
+    return createTrackAudio(context, track, ducking === 'post', engine);
+  });
+
+  const random = createRandom(seed);
+  const loopCounters: LoopCounters = new Map();
+  stepEvents.forEach(({ step, time: stepTime }) => {
+    playStep(renderTracks, step, baseDuration, stepTime, { loopCounters, fill, random, groove });
+  });
+
+  // Worklet synths receive their notes as messages; make sure they all arrived before rendering
+  await Promise.all(renderTracks.map(track => track.activeSynth?.flush()));
+  return context.startRendering();
+}
+
+/**
+ * Render the master mix followed by one stem per unmuted track.
+ * Renders run one after another to keep memory and CPU usage bounded.
+ */
+export async function renderStems(
+  options: Omit<RenderPatternOptions, 'soloTrackId' | 'ducking'>,
+  stemDucking: DuckingTap = 'post'
+): Promise<{ master: AudioBuffer; stems: StemRender[] }> {
+  const master = await renderPattern(options);
+
+  const stems: StemRender[] = [];
+  for (const track of options.tracks) {
+    if (track.isMuted) continue;
+    const buffer = await renderPattern({ ...options, soloTrackId: track.id, ducking: stemDucking });
+    stems.push({ track, buffer });
+  }
+
+  return { master, stems };
+}
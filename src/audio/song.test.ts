@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { createSongSection, getSongLength, getSongPosition } from './song';
+
+describe('Song', () => {
+  const song = [
+    { ...createSongSection(0), repeats: 2 },
+    createSongSection(1),
+    { ...createSongSection(0), repeats: 3 },
+  ];
+
+  it('should count bars across sections', () => {
+    expect(getSongLength(song)).toBe(6);
+    expect(getSongLength([])).toBe(0);
+  });
+
+  it('should find the section and repeat for a bar', () => {
+    expect(getSongPosition(song, 0)).toEqual({ section: 0, repeat: 0 });
+    expect(getSongPosition(song, 1)).toEqual({ section: 0, repeat: 1 });
+    expect(getSongPosition(song, 2)).toEqual({ section: 1, repeat: 0 });
+    expect(getSongPosition(song, 5)).toEqual({ section: 2, repeat: 2 });
+    expect(getSongPosition(song, 6)).toBeNull();
+  });
+});
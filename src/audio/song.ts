@@ -0,0 +1,41 @@
+/**
+ * Song mode: an arrangement of pattern bank slots played one after another.
+ * Each section plays its pattern for `repeats` bars (a bar is the master pattern length)
+ * and can override the tempo and the track mutes while it plays.
+ */
+
+export const MAX_SONG_SECTIONS = 64;
+export const MAX_SECTION_REPEATS = 64;
+
+export interface SongSection {
+  pattern: number; // Pattern bank slot
+  repeats: number; // Bars to play (1 - MAX_SECTION_REPEATS)
+  bpm: number | null; // null = project tempo
+  mutedTrackIds: number[]; // Tracks muted while this section plays
+}
+
+export interface SongPosition {
+  section: number;
+  repeat: number; // 0 on the first bar of the section
+}
+
+export function createSongSection(pattern: number): SongSection {
+  return { pattern, repeats: 1, bpm: null, mutedTrackIds: [] };
+}
+
+// Total number of bars in the arrangement
+export function getSongLength(song: SongSection[]): number {
+  return song.reduce((sum, section) => sum + section.repeats, 0);
+}
+
+// Section and repeat playing on the given bar of the song (null once the song has ended)
+export function getSongPosition(song: SongSection[], bar: number): SongPosition | null {
+  let remaining = bar;
+  for (let section = 0; section < song.length; section++) {
+    if (remaining < song[section].repeats) {
+      return { section, repeat: remaining };
+    }
+    remaining -= song[section].repeats;
+  }
+  return null;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { TRIG_CONDITIONS, isConditionMet, shouldTrigger } from './trigConditions';
+import { createRandom } from '../utils/random';
+
+describe('Trig conditions', () => {
+  it('should evaluate conditions against the loop counter and fill mode', () => {
+    const loops = [0, 1, 2, 3, 4, 5, 6, 7];
+
+    expect(loops.map(loop => isConditionMet('1:2', loop, false))).toEqual([true, false, true, false, true, false, true, false]);
+    expect(loops.map(loop => isConditionMet('3:4', loop, false))).toEqual([false, false, true, false, false, false, true, false]);
+    expect(loops.map(loop => isConditionMet('not first', loop, false))).toEqual([false, true, true, true, true, true, true, true]);
+    expect(isConditionMet('first', 0, false)).toBe(true);
+    expect(isConditionMet('fill', 3, false)).toBe(false);
+    expect(isConditionMet('fill', 3, true)).toBe(true);
+    expect(isConditionMet('not fill', 3, true)).toBe(false);
+    expect(TRIG_CONDITIONS).toContain('8:8');
+  });
+
+  it('should apply probability with a reproducible random source', () => {
+    const run = (seed: number) => {
+      const context = { loop: 0, fill: false, random: createRandom(seed) };
+      return Array.from({ length: 64 }, () => shouldTrigger({ probability: 0.5 }, context));
+    };
+
+    const hits = run(7);
+    expect(run(7)).toEqual(hits);
+    expect(hits.filter(Boolean).length).toBeGreaterThan(16);
+    expect(hits.filter(Boolean).length).toBeLessThan(48);
+
+    const context = { loop: 1, fill: false, random: () => 0 };
+    expect(shouldTrigger({ probability: 0 }, { ...context, random: () => 0.5 })).toBe(false);
+    expect(shouldTrigger({ probability: 1, condition: '1:2' }, context)).toBe(false);
+    expect(shouldTrigger(undefined, context)).toBe(true);
+  });
+});
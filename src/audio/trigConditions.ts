@@ -0,0 +1,67 @@
+import type { StepTrig, TrigCondition } from './types';
+import type { RandomSource } from '../utils/random';
+
+/**
+ * Step probability and conditional trigs, evaluated by the playback loop for every enabled step.
+ */
+
+// Ratio conditions offered in the UI ('A:B' = the Ath loop of every B loops)
+export const MAX_CONDITION_LOOPS = 8;
+
+export const TRIG_CONDITIONS: TrigCondition[] = [
+  'always',
+  'fill',
+  'not fill',
+  'first',
+  'not first',
+  ...Array.from({ length: MAX_CONDITION_LOOPS - 1 }, (_, i) => i + 2).flatMap(loops =>
+    Array.from({ length: loops }, (_, a) => `${a + 1}:${loops}` as TrigCondition)
+  ),
+];
+
+export interface TrigContext {
+  loop: number; // How many times the track's pattern has completed since playback started
+  fill: boolean; // Fill mode
+  random: RandomSource;
+}
+
+// Parse 'A:B' into [A, B] (null for other conditions)
+export function parseRatioCondition(condition: TrigCondition): [number, number] | null {
+  const match = /^(\d+):(\d+)$/.exec(condition);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2])];
+}
+
+export function isConditionMet(condition: TrigCondition, loop: number, fill: boolean): boolean {
+  switch (condition) {
+    case 'always':
+      return true;
+    case 'fill':
+      return fill;
+    case 'not fill':
+      return !fill;
+    case 'first':
+      return loop === 0;
+    case 'not first':
+      return loop > 0;
+  }
+
+  const ratio = parseRatioCondition(condition);
+  if (!ratio) return true;
+  const [a, b] = ratio;
+  return b > 0 && loop % b === a - 1;
+}
+
+// Whether an enabled step fires. The random source is only consulted for probabilities below 100%,
+// so patterns without probability don't shift the sequence of later random draws.
+export function shouldTrigger(trig: StepTrig | undefined, context: TrigContext): boolean {
+  if (!trig) return true;
+
+  if (trig.condition && !isConditionMet(trig.condition, context.loop, context.fill)) {
+    return false;
+  }
+
+  const probability = trig.probability ?? 1;
+  if (probability >= 1) return true;
+  return context.random() < probability;
+}
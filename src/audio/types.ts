@@ -1,3 +1,6 @@
+// Sine, OPL-style sine variants, analog shapes, or a waveform built from harmonic amplitudes
+export type OperatorWaveform = 'sine' | 'halfSine' | 'absSine' | 'quarterSine' | 'square' | 'saw' | 'triangle' | 'custom';
+
 export interface OperatorParams {
   frequency: number;
   ratio: number;
@@ -7,6 +10,9 @@ export interface OperatorParams {
   sustain: number;
   release: number;
   feedbackAmount: number;
+  modIndex: number; // Modulation index (peak phase deviation in radians) at full level, scaled by each connection's depth
+  waveform: OperatorWaveform;
+  harmonics: number[]; // Amplitudes (0-1) of harmonics 1-HARMONIC_COUNT of the 'custom' waveform
 }
 
 export interface LFOParams {
@@ -20,4 +26,54 @@ export interface PitchEnvelopeParams {
   depth: number;
 }
 
-export type FMAlgorithm = 'serial' | 'parallel' | 'hybrid1' | 'hybrid2';
+// The eight 4-operator OPN/OPM topologies, the original hybrid2 and 'custom' (the track's modulation matrix)
+export type FMAlgorithm =
+  | 'serial'
+  | 'merge'
+  | 'branch'
+  | 'stack'
+  | 'hybrid1'
+  | 'fan'
+  | 'pair'
+  | 'parallel'
+  | 'hybrid2'
+  | 'custom';
+
+// Free operator routing: depths[from][to] (0-1) of each modulation and which operators reach the output.
+// The diagonal is unused; an operator modulates itself through its feedback amount.
+export interface ModulationMatrix {
+  depths: number[][];
+  carriers: boolean[];
+}
+
+// 'mono' cuts the previous note when a new one starts, 'poly' lets notes overlap up to the voice count
+export type ChokeMode = 'mono' | 'poly';
+
+// Per-step overrides of the track sound (Elektron-style parameter locks); unset fields keep the track value
+export interface ParameterLock {
+  operators?: Partial<Record<number, Partial<OperatorParams>>>; // Keyed by operator index
+  lfo?: Partial<LFOParams>;
+  pitchEnvelope?: Partial<PitchEnvelopeParams>;
+  algorithm?: FMAlgorithm;
+  noteLength?: number;
+}
+
+// Parameter locks of a pattern, keyed by step index
+export type ParameterLocks = Record<number, ParameterLock>;
+
+// When a step fires: 'A:B' = on the Ath of every B loops, 'fill' = only while fill mode is on,
+// 'first' = only on the first loop after playback starts
+export type TrigCondition = 'always' | 'fill' | 'not fill' | 'first' | 'not first' | `${number}:${number}`;
+
+// Velocity shape across the hits of a ratchet
+export type RatchetRamp = 'none' | 'up' | 'down';
+
+export interface StepTrig {
+  probability?: number; // 0-1, chance that the step fires (default 1)
+  condition?: TrigCondition; // default 'always'
+  ratchet?: number; // Hits within the step (default 1 = no ratchet)
+  ratchetRamp?: RatchetRamp; // default 'none'
+}
+
+// Probability, conditions and ratchets of a pattern, keyed by step index
+export type StepTrigs = Record<number, StepTrig>;
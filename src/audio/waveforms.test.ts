@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { getWaveFunction } from './waveforms';
+import { getFeedbackHarmonics } from './feedback';
+
+describe('operator waveforms', () => {
+  it('should shape the OPL sine variants', () => {
+    const quarter = Math.PI / 2;
+    const sample = (waveform: Parameters<typeof getWaveFunction>[0]) =>
+      [1, 3, 5, 7].map(eighth => getWaveFunction(waveform, [])((eighth * quarter) / 2));
+    const peak = Math.SQRT1_2; // |sin| at odd eighths of the period
+
+    expect(sample('halfSine').map(x => x.toFixed(3))).toEqual([peak, peak, 0, 0].map(x => x.toFixed(3)));
+    expect(sample('absSine').map(x => x.toFixed(3))).toEqual([peak, peak, peak, peak].map(x => x.toFixed(3)));
+    expect(sample('quarterSine').map(x => x.toFixed(3))).toEqual([peak, 0, peak, 0].map(x => x.toFixed(3)));
+    expect(getWaveFunction('saw', [])(0)).toBe(0);
+  });
+
+  it('should build custom waveforms from their harmonics', () => {
+    const { imag } = getFeedbackHarmonics(0, 4, getWaveFunction('custom', [0.5, 0, 0.25, 0]));
+
+    // Normalized by the total amplitude (0.75)
+    expect(imag[1]).toBeCloseTo(2 / 3, 3);
+    expect(imag[2]).toBeCloseTo(0, 3);
+    expect(imag[3]).toBeCloseTo(1 / 3, 3);
+    expect(getWaveFunction('custom', [0, 0])(1)).toBe(0);
+  });
+});
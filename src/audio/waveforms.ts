@@ -0,0 +1,75 @@
+import type { OperatorWaveform } from './types';
+
+/**
+ * Operator waveforms: the sine, the OPL sine variants (half, absolute and quarter sine), square, saw,
+ * triangle and a custom waveform summed from harmonic amplitudes.
+ *
+ * The worklet engine computes the shapes per sample; the node-graph engine plays their harmonics as a
+ * PeriodicWave, which drops the DC offset of the half, absolute and quarter sines.
+ */
+
+// Waveform codes in share URLs (index); append only
+export const OPERATOR_WAVEFORMS: OperatorWaveform[] = [
+  'sine',
+  'halfSine',
+  'absSine',
+  'quarterSine',
+  'square',
+  'saw',
+  'triangle',
+  'custom',
+];
+
+export const WAVEFORM_LABELS: Record<OperatorWaveform, string> = {
+  sine: 'Sine',
+  halfSine: 'Half sine',
+  absSine: 'Abs sine',
+  quarterSine: 'Quarter sine',
+  square: 'Square',
+  saw: 'Saw',
+  triangle: 'Triangle',
+  custom: 'Custom',
+};
+
+// Harmonics of the custom waveform
+export const HARMONIC_COUNT = 8;
+
+const TWO_PI = Math.PI * 2;
+
+// Custom harmonics starting out as a plain sine
+export function createHarmonics(): number[] {
+  return Array.from({ length: HARMONIC_COUNT }, (_, i) => (i === 0 ? 1 : 0));
+}
+
+// Phase wrapped to 0 - 2π
+function wrapPhase(phase: number): number {
+  return ((phase % TWO_PI) + TWO_PI) % TWO_PI;
+}
+
+// The waveform as a function of the phase in radians, with a peak of 1
+export function getWaveFunction(waveform: OperatorWaveform, harmonics: number[]): (phase: number) => number {
+  switch (waveform) {
+    case 'sine':
+      return Math.sin;
+    case 'halfSine':
+      return phase => Math.max(0, Math.sin(phase));
+    case 'absSine':
+      return phase => Math.abs(Math.sin(phase));
+    case 'quarterSine':
+      // Rising quarter of each half period, silent during the falling quarter
+      return phase => (wrapPhase(phase) % Math.PI < Math.PI / 2 ? Math.abs(Math.sin(phase)) : 0);
+    case 'square':
+      return phase => (wrapPhase(phase) < Math.PI ? 1 : -1);
+    case 'saw':
+      // Rising through 0 at phase 0, like the sine
+      return phase => wrapPhase(phase + Math.PI) / Math.PI - 1;
+    case 'triangle':
+      return phase => (2 / Math.PI) * Math.asin(Math.sin(phase));
+    case 'custom': {
+      // Scaled by the total amplitude so that the peak never exceeds 1
+      const total = harmonics.reduce((sum, amplitude) => sum + Math.abs(amplitude), 0);
+      if (total === 0) return () => 0;
+      return phase => harmonics.reduce((sum, amplitude, i) => sum + amplitude * Math.sin((i + 1) * phase), 0) / total;
+    }
+  }
+}
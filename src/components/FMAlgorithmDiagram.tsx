@@ -1,5 +1,5 @@
-import { memo, useMemo } from 'react';
-import type { FMAlgorithm } from '../audio/types';
+import { memo, useId, useMemo } from 'react';
+import type { ModulationMatrix } from '../audio/types';
 
 type OperatorId = 0 | 1 | 2 | 3;
 
@@ -12,17 +12,37 @@ interface NodeDefinition {
   y: number;
 }
 
+interface EdgeDefinition {
+  from: OperatorId;
+  to: NodeId;
+  depth: number; // Modulation depth (0-1); 1 for connections to the output
+}
+
 interface FMAlgorithmDiagramProps {
-  algorithm: FMAlgorithm;
+  matrix: ModulationMatrix;
   hoveredOperator: OperatorId | null;
   onHover: (operator: OperatorId | null) => void;
+  width?: number; // Drawn size; the diagram scales to fit
+  height?: number;
 }
 
 const WIDTH = 260;
 const HEIGHT = 140;
-const OP_RADIUS = 22;
+const OP_RADIUS = 19;
 const OUTPUT_RADIUS = 18;
 
+const OPERATOR_IDS: OperatorId[] = [0, 1, 2, 3];
+
+// Operators are placed in columns to the left of the output, at most MAX_ROWS per column
+const OUTPUT_X = 236;
+const FIRST_COLUMN_X = 182;
+const COLUMN_SPACING = 51;
+const ROW_SPACING = 42;
+const MAX_ROWS = 3;
+
+const ARROW_SIZE = 8;
+const EDGE_BEND = 28; // Offset of the control point of edges that don't run towards the output
+
 const BASE_LABELS: Record<NodeId, string> = {
   0: 'OP1',
   1: 'OP2',
@@ -31,7 +51,18 @@ const BASE_LABELS: Record<NodeId, string> = {
   output: 'OUT',
 };
 
-const buildLayout = (algorithm: FMAlgorithm) => {
+// Distance of each operator from the output in columns: operators that modulate nothing sit next to OUT,
+// modulators one column left of the furthest operator they modulate. Cycles are cut where they close.
+const getColumns = (matrix: ModulationMatrix): number[] => {
+  const getColumn = (op: number, path: number[]): number =>
+    matrix.depths[op].reduce(
+      (column, depth, to) => (depth > 0 && !path.includes(to) ? Math.max(column, getColumn(to, [...path, to]) + 1) : column),
+      0
+    );
+  return OPERATOR_IDS.map(op => getColumn(op, [op]));
+};
+
+const buildLayout = (matrix: ModulationMatrix) => {
   const makeNode = (id: NodeId, x: number, y: number): NodeDefinition => ({
     id,
     label: BASE_LABELS[id],
@@ -39,176 +70,171 @@ const buildLayout = (algorithm: FMAlgorithm) => {
     y,
   });
 
-  switch (algorithm) {
-    case 'serial':
-      return {
-        nodes: [
-          makeNode(0, 40, 70),
-          makeNode(1, 100, 70),
-          makeNode(2, 160, 70),
-          makeNode(3, 220, 70),
-          makeNode('output', 260 - 18, 70),
-        ],
-        edges: [
-          { from: 0, to: 1 },
-          { from: 1, to: 2 },
-          { from: 2, to: 3 },
-          { from: 3, to: 'output' },
-        ],
-      };
-    case 'parallel':
-      return {
-        nodes: [
-          makeNode(0, 70, 35),
-          makeNode(1, 70, 105),
-          makeNode(2, 150, 35),
-          makeNode(3, 150, 105),
-          makeNode('output', 220, 70),
-        ],
-        edges: [
-          { from: 0, to: 'output' },
-          { from: 1, to: 'output' },
-          { from: 2, to: 'output' },
-          { from: 3, to: 'output' },
-        ],
-      };
-    case 'hybrid1':
-      return {
-        nodes: [
-          makeNode(0, 60, 35),
-          makeNode(1, 120, 35),
-          makeNode(2, 60, 105),
-          makeNode(3, 120, 105),
-          makeNode('output', 220, 70),
-        ],
-        edges: [
-          { from: 0, to: 1 },
-          { from: 2, to: 3 },
-          { from: 1, to: 'output' },
-          { from: 3, to: 'output' },
-        ],
-      };
-    case 'hybrid2':
-      return {
-        nodes: [
-          makeNode(0, 50, 45),
-          makeNode(1, 115, 45),
-          makeNode(2, 180, 45),
-          makeNode(3, 115, 105),
-          makeNode('output', 235, 70),
-        ],
-        edges: [
-          { from: 0, to: 1 },
-          { from: 1, to: 2 },
-          { from: 2, to: 'output' },
-          { from: 3, to: 'output' },
-        ],
-      };
-    default:
-      return {
-        nodes: [
-          makeNode(0, 40, 70),
-          makeNode(1, 100, 70),
-          makeNode(2, 160, 70),
-          makeNode(3, 220, 70),
-          makeNode('output', 260 - 18, 70),
-        ],
-        edges: [
-          { from: 0, to: 1 },
-          { from: 1, to: 2 },
-          { from: 2, to: 3 },
-          { from: 3, to: 'output' },
-        ],
-      };
+  const columns = getColumns(matrix);
+  const nodes: NodeDefinition[] = [];
+  let slot = 0;
+  for (let column = 0; column <= Math.max(...columns); column++) {
+    const ops = OPERATOR_IDS.filter(op => columns[op] === column);
+    // A column with more operators than fit vertically is split over two slots; the slot nearer the output
+    // spreads out so that the edges of the other one pass between its operators
+    const rows = ops.length > MAX_ROWS ? Math.ceil(ops.length / 2) : ops.length;
+    for (let start = 0; start < ops.length; start += rows) {
+      const group = ops.slice(start, start + rows);
+      const spacing = start === 0 && ops.length > rows ? ROW_SPACING * 2 : ROW_SPACING;
+      group.forEach((op, row) => {
+        nodes.push(makeNode(op, FIRST_COLUMN_X - slot * COLUMN_SPACING, HEIGHT / 2 + (row - (group.length - 1) / 2) * spacing));
+      });
+      slot++;
+    }
   }
+  nodes.push(makeNode('output', OUTPUT_X, HEIGHT / 2));
+
+  const edges: EdgeDefinition[] = [];
+  matrix.depths.forEach((row, from) => {
+    row.forEach((depth, to) => {
+      if (from !== to && depth > 0) {
+        edges.push({ from: from as OperatorId, to: to as OperatorId, depth });
+      }
+    });
+  });
+  matrix.carriers.forEach((isCarrier, op) => {
+    if (isCarrier) {
+      edges.push({ from: op as OperatorId, to: 'output', depth: 1 });
+    }
+  });
+
+  return { nodes, edges };
 };
 
-export const FMAlgorithmDiagram = memo(({ algorithm, hoveredOperator, onHover }: FMAlgorithmDiagramProps) => {
-  const layout = useMemo(() => buildLayout(algorithm), [algorithm]);
-
-  return (
-    <svg
-      width={WIDTH}
-      height={HEIGHT}
-      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
-      style={{
-        background: '#2a2a2a',
-        borderRadius: '8px',
-        padding: '8px',
-        boxSizing: 'border-box',
-      }}
-      onMouseLeave={() => onHover(null)}
-    >
-      <rect
-        x={4}
-        y={4}
-        width={WIDTH - 8}
-        height={HEIGHT - 8}
-        rx={10}
-        ry={10}
-        fill="none"
-        stroke="#4b4b4b"
-        strokeWidth={1.5}
-      />
-
-      {layout.edges.map((edge, index) => {
-        const fromNode = layout.nodes.find(node => node.id === edge.from);
-        const toNode = layout.nodes.find(node => node.id === edge.to);
-
-        if (!fromNode || !toNode) {
-          return null;
-        }
-
-        const isActive = hoveredOperator === edge.from || (typeof edge.to === 'number' && hoveredOperator === edge.to);
-
-        return (
-          <line
-            key={`${edge.from}-${edge.to}-${index}`}
-            x1={fromNode.x}
-            y1={fromNode.y}
-            x2={toNode.x}
-            y2={toNode.y}
-            stroke={isActive ? '#ffd966' : '#9f9f9f'}
-            strokeWidth={isActive ? 5 : 3}
-            strokeLinecap="round"
-          />
-        );
-      })}
-
-      {layout.nodes.map(node => {
-        const isOperator = typeof node.id === 'number';
-        const isHovered = isOperator && hoveredOperator === node.id;
-        const radius = node.id === 'output' ? OUTPUT_RADIUS : isHovered ? OP_RADIUS + 3 : OP_RADIUS;
-        const fill = node.id === 'output' ? '#4f4f4f' : isHovered ? '#ffd966' : '#f5f5f5';
-        const stroke = isHovered ? '#ffffff' : '#2a2a2a';
-
-        const handleMouseEnter = () => {
-          if (isOperator) {
-            onHover(node.id as OperatorId);
-          } else {
-            onHover(null);
-          }
-        };
-
-        return (
-          <g key={node.id} onMouseEnter={handleMouseEnter} style={{ cursor: isOperator ? 'pointer' : 'default' }}>
-            <circle cx={node.x} cy={node.y} r={radius} fill={fill} stroke={stroke} strokeWidth={isHovered ? 3 : 2} />
-            <text
-              x={node.x}
-              y={node.y + 4}
-              textAnchor="middle"
-              fontSize={isOperator ? 14 : 12}
-              fill={isHovered || node.id === 'output' ? '#1f1f1f' : '#1a1a1a'}
-              fontWeight={isOperator ? 600 : 500}
-              pointerEvents="none"
+const getRadius = (node: NodeDefinition) => (node.id === 'output' ? OUTPUT_RADIUS : OP_RADIUS);
+
+// Path between the rims of two nodes: straight when it runs towards the output, bent otherwise so that
+// edges going back or sideways (and pairs of operators modulating each other) stay apart
+const getEdgePath = (from: NodeDefinition, to: NodeDefinition): string => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const bend = to.x > from.x ? 0 : EDGE_BEND;
+  const controlX = (from.x + to.x) / 2 + (dy / length) * bend;
+  const controlY = (from.y + to.y) / 2 - (dx / length) * bend;
+
+  const moveTowardsControl = (node: NodeDefinition) => {
+    const distance = Math.hypot(controlX - node.x, controlY - node.y) || 1;
+    const radius = getRadius(node);
+    return `${node.x + ((controlX - node.x) / distance) * radius} ${node.y + ((controlY - node.y) / distance) * radius}`;
+  };
+
+  return `M ${moveTowardsControl(from)} Q ${controlX} ${controlY} ${moveTowardsControl(to)}`;
+};
+
+export const FMAlgorithmDiagram = memo(
+  ({ matrix, hoveredOperator, onHover, width = WIDTH, height = HEIGHT }: FMAlgorithmDiagramProps) => {
+    const layout = useMemo(() => buildLayout(matrix), [matrix]);
+    const markerId = useId();
+
+    return (
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        style={{
+          background: '#2a2a2a',
+          borderRadius: '8px',
+          padding: `${Math.round((8 * width) / WIDTH)}px`,
+          boxSizing: 'border-box',
+        }}
+        onMouseLeave={() => onHover(null)}
+      >
+        <defs>
+          {(['idle', 'active'] as const).map(state => (
+            <marker
+              key={state}
+              id={`${markerId}-${state}`}
+              viewBox="0 0 10 10"
+              refX={10}
+              refY={5}
+              markerWidth={ARROW_SIZE}
+              markerHeight={ARROW_SIZE}
+              markerUnits="userSpaceOnUse"
+              orient="auto"
             >
-              {node.label}
-            </text>
-          </g>
-        );
-      })}
-    </svg>
-  );
-});
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={state === 'active' ? '#ffd966' : '#9f9f9f'} />
+            </marker>
+          ))}
+        </defs>
+
+        <rect
+          x={4}
+          y={4}
+          width={WIDTH - 8}
+          height={HEIGHT - 8}
+          rx={10}
+          ry={10}
+          fill="none"
+          stroke="#4b4b4b"
+          strokeWidth={1.5}
+        />
+
+        {layout.edges.map((edge, index) => {
+          const fromNode = layout.nodes.find(node => node.id === edge.from);
+          const toNode = layout.nodes.find(node => node.id === edge.to);
+
+          if (!fromNode || !toNode) {
+            return null;
+          }
+
+          const isActive = hoveredOperator === edge.from || (typeof edge.to === 'number' && hoveredOperator === edge.to);
+          // Modulation edges are drawn thicker the deeper they modulate
+          const strokeWidth = edge.to === 'output' ? 3 : 1.5 + edge.depth * 2.5;
+
+          return (
+            <path
+              key={`${edge.from}-${edge.to}-${index}`}
+              d={getEdgePath(fromNode, toNode)}
+              fill="none"
+              stroke={isActive ? '#ffd966' : '#9f9f9f'}
+              strokeWidth={isActive ? strokeWidth + 2 : strokeWidth}
+              strokeLinecap="round"
+              markerEnd={`url(#${markerId}-${isActive ? 'active' : 'idle'})`}
+            />
+          );
+        })}
+
+        {layout.nodes.map(node => {
+          const isOperator = typeof node.id === 'number';
+          const isHovered = isOperator && hoveredOperator === node.id;
+          const radius = node.id === 'output' ? OUTPUT_RADIUS : isHovered ? OP_RADIUS + 3 : OP_RADIUS;
+          const fill = node.id === 'output' ? '#4f4f4f' : isHovered ? '#ffd966' : '#f5f5f5';
+          const stroke = isHovered ? '#ffffff' : '#2a2a2a';
+
+          const handleMouseEnter = () => {
+            if (isOperator) {
+              onHover(node.id as OperatorId);
+            } else {
+              onHover(null);
+            }
+          };
+
+          return (
+            <g key={node.id} onMouseEnter={handleMouseEnter} style={{ cursor: isOperator ? 'pointer' : 'default' }}>
+              <circle cx={node.x} cy={node.y} r={radius} fill={fill} stroke={stroke} strokeWidth={isHovered ? 3 : 2} />
+              <text
+                x={node.x}
+                y={node.y + 4}
+                textAnchor="middle"
+                fontSize={isOperator ? 13 : 12}
+                fill={isHovered || node.id === 'output' ? '#1f1f1f' : '#1a1a1a'}
+                fontWeight={isOperator ? 600 : 500}
+                pointerEvents="none"
+              >
+                {node.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    );
+  }
+);
 
 FMAlgorithmDiagram.displayName = 'FMAlgorithmDiagram';
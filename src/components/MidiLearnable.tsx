@@ -0,0 +1,58 @@
+import type { CSSProperties, PointerEvent as ReactPointerEvent, ReactNode } from 'react';
+
+interface MidiLearnableProps {
+  learning: boolean; // MIDI learn mode is on: clicking selects the control instead of changing it
+  selected: boolean; // Selected for learning, the next controller moved is bound to it
+  mapping: string | null; // Label of the bound controller, e.g. 'CC74'
+  onSelect: () => void;
+  children: ReactNode;
+  style?: CSSProperties;
+}
+
+export const MidiLearnable = ({ learning, selected, mapping, onSelect, children, style }: MidiLearnableProps) => {
+  const handlePointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (!learning) return;
+    // Keep the control from reacting to the click while learning
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect();
+  };
+
+  const outline = selected ? '2px solid #ffb74d' : learning && mapping ? '1px dashed #64b5f6' : 'none';
+
+  return (
+    <div
+      onPointerDownCapture={handlePointerDown}
+      onMouseDownCapture={e => learning && e.preventDefault()}
+      onClickCapture={e => learning && e.preventDefault()}
+      title={mapping ? `MIDI: ${mapping}` : undefined}
+      style={{
+        position: 'relative',
+        outline,
+        outlineOffset: '2px',
+        borderRadius: '4px',
+        cursor: learning ? 'pointer' : undefined,
+        ...style,
+      }}
+    >
+      {children}
+      {learning && mapping && (
+        <span
+          style={{
+            position: 'absolute',
+            top: '-8px',
+            right: '-4px',
+            background: '#64b5f6',
+            color: '#2a2a2a',
+            fontSize: '9px',
+            padding: '0 3px',
+            borderRadius: '3px',
+            pointerEvents: 'none',
+          }}
+        >
+          {mapping}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import type { FMAlgorithm, ModulationMatrix } from '../audio/types';
+import { ALGORITHM_LABELS, FM_ALGORITHMS, OPERATOR_COUNT, createModulationMatrix } from '../audio/fmRouting';
+import { RotaryKnob } from './RotaryKnob';
+
+interface ModulationMatrixEditorProps {
+  matrix: ModulationMatrix;
+  onChange: (matrix: ModulationMatrix) => void;
+}
+
+const OPERATORS = Array.from({ length: OPERATOR_COUNT }, (_, i) => i);
+
+const headerStyle = { fontSize: '10px', color: '#a8a8a8', textAlign: 'center', fontWeight: 600 } as const;
+
+// Depth of every operator -> operator connection (rows modulate columns) and the operators sent to the output
+export const ModulationMatrixEditor = ({ matrix, onChange }: ModulationMatrixEditorProps) => {
+  const setDepth = (from: number, to: number, depth: number) => {
+    onChange({
+      ...matrix,
+      depths: matrix.depths.map((row, i) => (i === from ? row.map((value, j) => (j === to ? depth : value)) : row)),
+    });
+  };
+
+  const toggleCarrier = (op: number) => {
+    onChange({ ...matrix, carriers: matrix.carriers.map((isCarrier, i) => (i === op ? !isCarrier : isCarrier)) });
+  };
+
+  return (
+    <div style={{ background: '#454545', border: '1px solid #5a5a5a', borderRadius: '4px', padding: '10px', marginBottom: '12px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px', fontSize: '12px', color: '#e0e0e0' }}>
+        Modulation matrix
+        <select
+          value=""
+          onChange={e => e.target.value && onChange(createModulationMatrix(e.target.value as FMAlgorithm))}
+          title="Replace the matrix with the routing of an algorithm"
+          style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+        >
+          <option value="">Load algorithm...</option>
+          {FM_ALGORITHMS.filter(algo => algo !== 'custom').map(algo => (
+            <option key={algo} value={algo}>
+              {ALGORITHM_LABELS[algo]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: `auto repeat(${OPERATOR_COUNT}, 56px) 40px`, gap: '4px', alignItems: 'center' }}>
+        <span />
+        {OPERATORS.map(to => (
+          <span key={to} style={headerStyle}>
+            → OP{to + 1}
+          </span>
+        ))}
+        <span style={headerStyle}>OUT</span>
+
+        {OPERATORS.map(from => (
+          <div key={from} style={{ display: 'contents' }}>
+            <span style={{ ...headerStyle, textAlign: 'right', paddingRight: '4px' }}>OP{from + 1}</span>
+            {OPERATORS.map(to =>
+              from === to ? (
+                // Self-modulation is the operator's feedback knob
+                <span key={to} style={{ ...headerStyle, color: '#777' }} title="Use the operator's FB knob">
+                  FB
+                </span>
+              ) : (
+                <RotaryKnob
+                  key={to}
+                  value={matrix.depths[from][to]}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onChange={value => setDepth(from, to, value)}
+                  label={`${from + 1}→${to + 1}`}
+                  size={32}
+                />
+              )
+            )}
+            <input
+              type="checkbox"
+              checked={matrix.carriers[from]}
+              onChange={() => toggleCarrier(from)}
+              title={`Send OP${from + 1} to the output`}
+              style={{ width: '16px', height: '16px', justifySelf: 'center' }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
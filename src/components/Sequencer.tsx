@@ -1,13 +1,116 @@
 import { useState, useEffect, useRef } from 'react';
-import { FMSynth } from '../audio/FMSynth';
-import type { OperatorParams, LFOParams, PitchEnvelopeParams, FMAlgorithm } from '../audio/types';
+import { FMSynth, MAX_VOICES, loadFMWorklet } from '../audio/FMSynth';
+import type { FMEngine } from '../audio/FMSynth';
+import { MAX_TRACKS, MAX_TRACK_NAME_LENGTH, createDefaultTracks, createTrack, nextTrackId } from '../audio/presets';
+import {
+  MAX_STEPS,
+  MAX_NUDGE,
+  DEFAULT_STEP_COUNT,
+  PATTERN_COUNT,
+  clampStepCount,
+  createEmptyPattern,
+  getLivePattern,
+  getPatternLabel,
+  isPatternEmpty,
+  loadPattern,
+  normalizePatternBank,
+  padToMaxSteps,
+  switchPattern,
+} from '../audio/patterns';
+import type { TrackPattern } from '../audio/patterns';
+import type {
+  OperatorParams,
+  LFOParams,
+  PitchEnvelopeParams,
+  FMAlgorithm,
+  ModulationMatrix,
+  OperatorWaveform,
+  ChokeMode,
+  ParameterLocks,
+  RatchetRamp,
+  StepTrig,
+  StepTrigs,
+  TrigCondition,
+} from '../audio/types';
+import { TRIG_CONDITIONS } from '../audio/trigConditions';
+import { RATCHET_COUNTS, RATCHET_RAMPS, getRatchetCount } from '../audio/ratchets';
+import { applyParameterLock, hasLockedValues, recordParameterLock } from '../audio/parameterLocks';
+import type { LockableParams } from '../audio/parameterLocks';
+import { OPERATOR_WAVEFORMS, WAVEFORM_LABELS } from '../audio/waveforms';
+import {
+  ALGORITHM_LABELS,
+  FM_ALGORITHMS,
+  MAX_MOD_INDEX,
+  createModulationMatrix,
+  getAlgorithmMatrix,
+  migrateOperators,
+} from '../audio/fmRouting';
 import { ADSRGraph } from './ADSRGraph';
 import { RectSlider } from './RectSlider';
 import { RotaryKnob } from './RotaryKnob';
 import { FMAlgorithmDiagram } from './FMAlgorithmDiagram';
+import { ModulationMatrixEditor } from './ModulationMatrixEditor';
 import { LFOGraph } from './LFOGraph';
 import { PitchEnvelopeGraph } from './PitchEnvelopeGraph';
+import { MidiLearnable } from './MidiLearnable';
 import { serializeState, deserializeState } from '../utils/urlState';
+import { MAX_SECTION_REPEATS, MAX_SONG_SECTIONS, createSongSection, getSongLength, getSongPosition } from '../audio/song';
+import type { SongSection, SongPosition } from '../audio/song';
+import { audioBufferToWav } from '../utils/wav';
+import type { WavBitDepth } from '../utils/wav';
+import { createZip } from '../utils/zip';
+import {
+  CHOKE_GROUP_COUNT,
+  createTrackAudio,
+  getBaseStepDuration,
+  getStepDuration,
+  getTrackStep,
+  playStep,
+  playTrackNote,
+  releaseTrackAudio,
+} from '../audio/playback';
+import type { LoopCounters } from '../audio/playback';
+import { renderPattern, renderStems } from '../audio/renderPattern';
+import { StepScheduler } from '../audio/StepScheduler';
+import {
+  GROOVE_TEMPLATES,
+  GROOVE_TEMPLATE_LABELS,
+  MAX_GROOVE_LEAD,
+  MAX_SWING,
+  MIN_SWING,
+  createGroove,
+  extractGroove,
+} from '../audio/groove';
+import type { Groove, GrooveResolution, GrooveTemplate } from '../audio/groove';
+import { MidiInput } from '../midi/MidiInput';
+import { MidiOutput } from '../midi/MidiOutput';
+import { MidiClockFollower, getStepClockTimes } from '../midi/midiClock';
+import { exportMidiFile, getStepMidiNotes, parseMidiFile, quantizeMidiNotes } from '../midi/midiFile';
+import {
+  SoftTakeover,
+  assignMapping,
+  findMapping,
+  getMidiParamRange,
+  getOperatorMidiParam,
+  getStepMidiParam,
+  getTargetKey,
+} from '../midi/midiMapping';
+import type { CcMapping, MidiTarget, OperatorMidiParam, StepMidiParam } from '../midi/midiMapping';
+import type { MidiClockMode } from '../midi/midiClock';
+import {
+  GM_DRUM_CHANNEL,
+  MIDI_CLOCK,
+  MIDI_CONTINUE,
+  MIDI_START,
+  MIDI_STOP,
+  getDefaultMidiNote,
+  getMidiNoteLabel,
+  noteOffMessage,
+  noteOnMessage,
+  songPositionMessage,
+} from '../midi/midiMessages';
+import type { MidiMessage } from '../midi/midiMessages';
+import type { DuckingTap } from '../audio/renderPattern';
 import {
   FaPlay,
   FaPause,
@@ -21,26 +124,45 @@ import {
   FaChevronDown,
   FaChevronUp,
   FaLink,
-  FaCheck
+  FaCheck,
+  FaDownload,
+  FaArrowUp,
+  FaArrowDown,
+  FaClone,
+  FaTimes,
+  FaPlus,
+  FaFileImport
 } from 'react-icons/fa';
 
 export interface TrackData {
   id: number;
   name: string;
-  steps: boolean[];
+  steps: boolean[]; // Always MAX_STEPS entries; only the first patternLength are played
+  patternLength: number; // Steps before this track loops (1 - MAX_STEPS), independent of other tracks
+  patterns: TrackPattern[]; // Pattern bank; the active pattern lives in the per-step fields below and above
+  parameterLocks: ParameterLocks; // Per-step sound overrides of the active pattern
+  stepTrigs: StepTrigs; // Per-step probability and trig conditions of the active pattern
   frequency: number;
   operators: OperatorParams[];
   lfo: LFOParams;
   algorithm: FMAlgorithm;
+  modulationMatrix: ModulationMatrix; // Routing of the 'custom' algorithm (not lockable per step)
   pitchEnvelope: PitchEnvelopeParams;
   pitchMap: number[];
   velocityMap: number[]; // Velocity per step (0.0 - 1.0)
+  nudgeMap: number[]; // Micro-timing per step, as a fraction of a step (-MAX_NUDGE - MAX_NUDGE)
   noteLength: number; // Length in steps (1.0 = one step)
+  chokeMode: ChokeMode; // Mono-choke or polyphonic overlap of successive notes
+  voiceCount: number; // Max overlapping notes in poly mode (1 - MAX_VOICES)
+  chokeGroup: number; // Tracks in the same group (1 - CHOKE_GROUP_COUNT) cut each other, 0 = none
+  groove: Groove | null; // Overrides the project groove (null = follow it)
+  midiNote: number; // MIDI note that plays the track (GM drum map by default, learnable)
   activeSynth: FMSynth | null;
   lfoEnabled: boolean;
   pitchEnabled: boolean;
   pitchControlVisible: boolean; // Toggle pitch control UI
   velocityControlVisible: boolean; // Toggle velocity control UI
+  nudgeControlVisible: boolean; // Toggle micro-timing control UI
   operatorsExpanded: boolean; // Toggle operators section visibility
   lfoExpanded: boolean; // Toggle LFO section visibility
   pitchEnvExpanded: boolean; // Toggle pitch envelope section visibility
@@ -54,24 +176,94 @@ export interface TrackData {
 export const Sequencer = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [bpm, setBpm] = useState(120);
-  const [stepCount, setStepCount] = useState(16);
+  const [stepCount, setStepCount] = useState(DEFAULT_STEP_COUNT);
   const [currentStep, setCurrentStep] = useState(0);
   const [tracks, setTracks] = useState<TrackData[]>([]);
   const [toast, setToast] = useState<string | null>(null);
   const [hoveredOperator, setHoveredOperator] = useState<{ trackId: number; operatorIndex: number | 'all' | null } | null>(null);
   const [shuffle, setShuffle] = useState(0.0); // Global shuffle parameter
   const [urlCopied, setUrlCopied] = useState(false);
+  const [exportLoops, setExportLoops] = useState(4);
+  const [exportBitDepth, setExportBitDepth] = useState<WavBitDepth>(24);
+  const [exportStems, setExportStems] = useState(false);
+  const [stemDucking, setStemDucking] = useState<DuckingTap>('post');
+  const [isExporting, setIsExporting] = useState(false);
+  const [activePattern, setActivePattern] = useState(0);
+  const [queuedPattern, setQueuedPattern] = useState<number | null>(null); // Switches at the end of the bar while playing
+  const [copiedPattern, setCopiedPattern] = useState<Map<number, TrackPattern> | null>(null); // Keyed by track id
+  const [songMode, setSongMode] = useState(false); // Transport plays the arrangement instead of looping one pattern
+  const [song, setSong] = useState<SongSection[]>([]);
+  const [songPosition, setSongPosition] = useState<SongPosition | null>(null);
+  const [fill, setFill] = useState(false); // Fill mode for 'fill' / 'not fill' trig conditions
+  const [groove, setGroove] = useState<Groove>(createGroove()); // Project groove, unless a track has its own
+  const [midiEnabled, setMidiEnabled] = useState(false);
+  const [midiInputs, setMidiInputs] = useState<string[]>([]); // Names of the connected MIDI input ports
+  const [midiRecording, setMidiRecording] = useState(false); // Record MIDI hits into the live pattern while playing
+  const [midiOutputs, setMidiOutputs] = useState<string[]>([]); // Names of the connected MIDI output ports
+  const [midiClockMode, setMidiClockMode] = useState<MidiClockMode>('internal'); // Send clock, follow external clock, or neither
+  const [midiNotesOut, setMidiNotesOut] = useState(false); // Send a note for every step that fires
+  const [midiLearnTrackId, setMidiLearnTrackId] = useState<number | null>(null); // Next note played is assigned to this track
+  const [synthEngine, setSynthEngine] = useState<FMEngine>('nodes'); // Node graph or AudioWorklet synthesis (the default once loaded)
+  const [midiCcLearn, setMidiCcLearn] = useState(false); // Clicking a control selects it for CC learning
+  const [midiLearnTarget, setMidiLearnTarget] = useState<MidiTarget | null>(null); // Next controller moved is bound to it
+  const [ccMappings, setCcMappings] = useState<CcMapping[]>([]);
+  const [lockSteps, setLockSteps] = useState<Record<number, number>>({}); // Track id -> step whose parameter lock is being edited
 
   const audioContextRef = useRef<AudioContext | null>(null);
-  const intervalRef = useRef<number | null>(null);
   const currentStepRef = useRef(0);
   const tracksRef = useRef<TrackData[]>([]);
-
-  // Keep tracksRef in sync with tracks state
+  const bpmRef = useRef(bpm);
+  const stepCountRef = useRef(stepCount);
+  const shuffleRef = useRef(shuffle);
+  const activePatternRef = useRef(activePattern);
+  const queuedPatternRef = useRef(queuedPattern);
+  const songModeRef = useRef(songMode);
+  const fillRef = useRef(fill);
+  const grooveRef = useRef(groove);
+  const schedulerRef = useRef<StepScheduler | null>(null);
+  const midiInputRef = useRef<MidiInput | null>(null);
+  const midiMessageRef = useRef<(message: MidiMessage, timeStamp: number) => void>(() => {});
+  const midiOutputRef = useRef<MidiOutput | null>(null);
+  const midiNotesOutRef = useRef(midiNotesOut);
+  const clockFollowerRef = useRef(new MidiClockFollower());
+  const softTakeoverRef = useRef(new SoftTakeover());
+  const midiFileInputRef = useRef<HTMLInputElement | null>(null);
+  const externalStepRef = useRef<((step: number) => void) | null>(null); // Plays a step driven by the external clock
+  const pendingExternalStepRef = useRef<number | null>(null); // Step clocked in before playback was set up
+  const songRef = useRef(song);
+  const pendingSwitchesRef = useRef<{ from: number; to: number }[]>([]); // Pattern switches scheduled but not yet heard
+
+  // Keep tracksRef in sync with tracks state, including pattern switches the scheduler is already playing
   useEffect(() => {
-    tracksRef.current = tracks;
+    tracksRef.current = pendingSwitchesRef.current.reduce(
+      (current, { from, to }) => current.map(track => switchPattern(track, from, to)),
+      tracks
+    );
   }, [tracks]);
 
+  // Timing refs are read by the scheduler on every step, so tempo/shuffle changes apply without restarting
+  useEffect(() => {
+    bpmRef.current = bpm;
+    stepCountRef.current = stepCount;
+    shuffleRef.current = shuffle;
+  }, [bpm, stepCount, shuffle]);
+
+  useEffect(() => {
+    activePatternRef.current = pendingSwitchesRef.current.at(-1)?.to ?? activePattern;
+    queuedPatternRef.current = queuedPattern;
+  }, [activePattern, queuedPattern]);
+
+  useEffect(() => {
+    fillRef.current = fill;
+    grooveRef.current = groove;
+    midiNotesOutRef.current = midiNotesOut;
+  }, [fill, groove, midiNotesOut]);
+
+  useEffect(() => {
+    songModeRef.current = songMode;
+    songRef.current = song;
+  }, [songMode, song]);
+
   // Toast auto-hide
   useEffect(() => {
     if (toast) {
@@ -90,11 +282,15 @@ export const Sequencer = () => {
           duckingGain: null,
         }));
         localStorage.setItem('fmsynth-tracks', JSON.stringify(tracksToSave));
+        localStorage.setItem('fmsynth-active-pattern', String(activePattern));
+        localStorage.setItem('fmsynth-song', JSON.stringify(song));
+        localStorage.setItem('fmsynth-groove', JSON.stringify(groove));
+        localStorage.setItem('fmsynth-midi-map', JSON.stringify(ccMappings));
       } catch (e) {
         console.error('Failed to save tracks:', e);
       }
     }
-  }, [tracks]);
+  }, [tracks, activePattern, song, groove, ccMappings]);
 
   const showToast = (message: string) => {
     setToast(message);
@@ -102,154 +298,14 @@ export const Sequencer = () => {
 
   // Initialize audio context and tracks
   useEffect(() => {
-    audioContextRef.current = new AudioContext();
-
-    // Create one synth instance per track (reusable)
-    const trackSynths: FMSynth[] = [];
-    for (let i = 0; i < 4; i++) {
-      trackSynths.push(new FMSynth(audioContextRef.current));
-    }
+    const audioContext = new AudioContext();
+    audioContextRef.current = audioContext;
 
-    // Create ducking gain nodes for tracks 2, 3, 4
-    const duckingGains: GainNode[] = [];
-    for (let i = 0; i < 4; i++) {
-      if (i > 0) {
-        const gain = audioContextRef.current.createGain();
-        gain.gain.value = 1; // No ducking initially
-        duckingGains.push(gain);
-        trackSynths[i].connectSidechainGain(gain);
-      } else {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        duckingGains.push(null as any);
-      }
-    }
+    // Create one synth instance (reusable) and ducking gain per track
+    const withAudio = (loadedTracks: TrackData[]) =>
+      loadedTracks.map(track => createTrackAudio(audioContext, track));
 
-    const initialTracks: TrackData[] = [
-      {
-        id: 0,
-        name: 'Kick',
-        steps: new Array(64).fill(false).map((_, i) => i % 4 === 0 && i < 16),
-        frequency: 55,
-        operators: [
-          { frequency: 55, ratio: 1.57, level: 0.30846065929062844, attack: 0.001, decay: 0.2924691461314984, sustain: 0.3052622340820058, release: 0.23572082996985017, feedbackAmount: 0.5519581506267578 },
-          { frequency: 55, ratio: 1.48, level: 0.5927759298844391, attack: 0.001, decay: 0.09971183734862396, sustain: 0.15405327669189317, release: 0.33589217394922644, feedbackAmount: 0.7894718414985458 },
-          { frequency: 55, ratio: 2.33, level: 0.30651959266073736, attack: 0.001, decay: 0.17247350678078033, sustain: 0.010876614372196836, release: 0.2998970050614464, feedbackAmount: 0.31942793972654543 },
-          { frequency: 55, ratio: 1.88, level: 0.47632812369723265, attack: 0.001, decay: 0.15675361302425694, sustain: 0.33193765080781823, release: 0.08266122022775887, feedbackAmount: 0.2678397087736604 },
-        ],
-        lfo: { frequency: 7.289716616269852, depth: 0.2644860006832155 },
-        algorithm: 'parallel' as FMAlgorithm,
-        pitchEnvelope: { attack: 0.03263920787813766, decay: 0.0633337102583343, depth: 2 },
-        pitchMap: new Array(64).fill(1),
-        velocityMap: new Array(64).fill(1),
-        noteLength: 1.0,
-        activeSynth: trackSynths[0],
-        lfoEnabled: true,
-        pitchEnabled: true,
-        pitchControlVisible: false,
-        velocityControlVisible: false,
-        operatorsExpanded: false,
-        lfoExpanded: false,
-        pitchEnvExpanded: false,
-        duckingEnabled: false,
-        duckingGain: duckingGains[0],
-        duckingAmount: 0.3, // Duck to 30%
-        duckingRelease: 0.2, // 200ms release
-        isMuted: false,
-      },
-      {
-        id: 1,
-        name: 'Snare',
-        steps: new Array(64).fill(false).map((_, i) => (i === 4 || i === 12) && i < 16),
-        frequency: 200,
-        operators: [
-          { frequency: 200, ratio: 1.5, level: 0.7, attack: 0.001, decay: 0.08, sustain: 0.1, release: 0.15, feedbackAmount: 0.5 },
-          { frequency: 200, ratio: 2.3, level: 0.5, attack: 0.001, decay: 0.06, sustain: 0.05, release: 0.12, feedbackAmount: 0.4 },
-          { frequency: 200, ratio: 3.7, level: 0.3, attack: 0.001, decay: 0.04, sustain: 0.02, release: 0.08, feedbackAmount: 0.3 },
-          { frequency: 200, ratio: 5.1, level: 0.8, attack: 0.001, decay: 0.08, sustain: 0.1, release: 0.15, feedbackAmount: 0.2 },
-        ],
-        lfo: { frequency: 10, depth: 0.05 },
-        algorithm: 'serial' as FMAlgorithm,
-        pitchEnvelope: { attack: 0.01, decay: 0.03, depth: 0.3 },
-        pitchMap: new Array(64).fill(1),
-        velocityMap: new Array(64).fill(1),
-        noteLength: 1.0,
-        activeSynth: trackSynths[1],
-        lfoEnabled: true,
-        pitchEnabled: true,
-        pitchControlVisible: false,
-        velocityControlVisible: false,
-        operatorsExpanded: false,
-        lfoExpanded: false,
-        pitchEnvExpanded: false,
-        duckingEnabled: false,
-        duckingGain: duckingGains[1],
-        duckingAmount: 0.3,
-        duckingRelease: 0.2,
-        isMuted: false,
-      },
-      {
-        id: 2,
-        name: 'HiHat',
-        steps: new Array(64).fill(false).map((_, i) => i % 2 === 0 && i < 16),
-        frequency: 800,
-        operators: [
-          { frequency: 800, ratio: 2.1, level: 0.4, attack: 0.001, decay: 0.02, sustain: 0.0, release: 0.05, feedbackAmount: 0.7 },
-          { frequency: 800, ratio: 3.3, level: 0.3, attack: 0.001, decay: 0.015, sustain: 0.0, release: 0.04, feedbackAmount: 0.6 },
-          { frequency: 800, ratio: 4.7, level: 0.2, attack: 0.001, decay: 0.01, sustain: 0.0, release: 0.03, feedbackAmount: 0.5 },
-          { frequency: 800, ratio: 6.2, level: 0.7, attack: 0.001, decay: 0.02, sustain: 0.0, release: 0.05, feedbackAmount: 0.4 },
-        ],
-        lfo: { frequency: 20, depth: 0.1 },
-        algorithm: 'parallel' as FMAlgorithm,
-        pitchEnvelope: { attack: 0.005, decay: 0.02, depth: 0.2 },
-        pitchMap: new Array(64).fill(1),
-        velocityMap: new Array(64).fill(1),
-        noteLength: 0.5,
-        activeSynth: trackSynths[2],
-        lfoEnabled: true,
-        pitchEnabled: false,
-        pitchControlVisible: false,
-        velocityControlVisible: false,
-        operatorsExpanded: false,
-        lfoExpanded: false,
-        pitchEnvExpanded: false,
-        duckingEnabled: false,
-        duckingGain: duckingGains[2],
-        duckingAmount: 0.3,
-        duckingRelease: 0.2,
-        isMuted: false,
-      },
-      {
-        id: 3,
-        name: 'Tom',
-        steps: new Array(64).fill(false),
-        frequency: 110,
-        operators: [
-          { frequency: 110, ratio: 1.2, level: 0.7, attack: 0.001, decay: 0.15, sustain: 0.2, release: 0.2, feedbackAmount: 0.2 },
-          { frequency: 110, ratio: 1.8, level: 0.5, attack: 0.001, decay: 0.12, sustain: 0.15, release: 0.15, feedbackAmount: 0.1 },
-          { frequency: 110, ratio: 2.5, level: 0.3, attack: 0.001, decay: 0.1, sustain: 0.1, release: 0.1, feedbackAmount: 0.05 },
-          { frequency: 110, ratio: 3.2, level: 0.8, attack: 0.001, decay: 0.15, sustain: 0.2, release: 0.2, feedbackAmount: 0 },
-        ],
-        lfo: { frequency: 5, depth: 0.03 },
-        algorithm: 'hybrid1' as FMAlgorithm,
-        pitchEnvelope: { attack: 0.02, decay: 0.1, depth: 0.4 },
-        pitchMap: new Array(64).fill(1),
-        velocityMap: new Array(64).fill(1),
-        noteLength: 2.0,
-        activeSynth: trackSynths[3],
-        lfoEnabled: true,
-        pitchEnabled: true,
-        pitchControlVisible: false,
-        velocityControlVisible: false,
-        operatorsExpanded: false,
-        lfoExpanded: false,
-        pitchEnvExpanded: false,
-        duckingEnabled: false,
-        duckingGain: duckingGains[3],
-        duckingAmount: 0.3,
-        duckingRelease: 0.2,
-        isMuted: false,
-      },
-    ];
+    const initialTracks = createDefaultTracks();
 
     // Try to load state from URL first, then localStorage, then use initial tracks
     try {
@@ -263,18 +319,20 @@ export const Sequencer = () => {
           setBpm(decoded.bpm);
           setStepCount(decoded.stepCount);
           setShuffle(decoded.shuffle);
+          setActivePattern(decoded.activePattern);
+          setSong(decoded.song);
+          setGroove(decoded.groove);
+          setCcMappings(decoded.ccMappings);
 
           const restoredTracks = decoded.tracks.map((track, index) => ({
             ...track,
-            name: initialTracks[index].name,
-            activeSynth: trackSynths[index],
-            duckingGain: index > 0 ? duckingGains[index] : null,
+            name: track.name ?? initialTracks[index]?.name ?? `Track ${index + 1}`,
           })) as TrackData[];
 
-          setTracks(restoredTracks);
+          setTracks(withAudio(restoredTracks));
         } else {
           console.error('Failed to decode URL state');
-          setTracks(initialTracks);
+          setTracks(withAudio(initialTracks));
         }
       } else {
         // Load from localStorage
@@ -284,29 +342,54 @@ export const Sequencer = () => {
           const restoredTracks = parsed.map((track: TrackData, index: number) => ({
             ...track,
             // Add missing fields if they don't exist (for backward compatibility)
-            velocityMap: track.velocityMap || new Array(64).fill(1),
+            steps: padToMaxSteps(track.steps, false),
+            patternLength: track.patternLength ?? DEFAULT_STEP_COUNT,
+            patterns: normalizePatternBank(track.patterns, track.patternLength ?? DEFAULT_STEP_COUNT),
+            parameterLocks: track.parameterLocks ?? {},
+            stepTrigs: track.stepTrigs ?? {},
+            pitchMap: padToMaxSteps(track.pitchMap, 1),
+            velocityMap: padToMaxSteps(track.velocityMap, 1),
+            nudgeMap: padToMaxSteps(track.nudgeMap, 0),
             pitchControlVisible: track.pitchControlVisible ?? false,
             velocityControlVisible: track.velocityControlVisible ?? false,
+            nudgeControlVisible: track.nudgeControlVisible ?? false,
             operatorsExpanded: track.operatorsExpanded ?? false,
             lfoExpanded: track.lfoExpanded ?? false,
             pitchEnvExpanded: track.pitchEnvExpanded ?? false,
-            activeSynth: trackSynths[index],
-            duckingGain: index > 0 ? duckingGains[index] : null,
+            chokeMode: track.chokeMode ?? 'mono',
+            voiceCount: track.voiceCount ?? 4,
+            chokeGroup: track.chokeGroup ?? 0,
+            groove: track.groove ?? null,
+            midiNote: track.midiNote ?? getDefaultMidiNote(index),
+            modulationMatrix: track.modulationMatrix ?? createModulationMatrix(),
+            operators: migrateOperators(track.operators, track.frequency),
           }));
-          setTracks(restoredTracks);
+          setTracks(withAudio(restoredTracks));
+          const savedPattern = Number(localStorage.getItem('fmsynth-active-pattern'));
+          setActivePattern(savedPattern >= 0 && savedPattern < PATTERN_COUNT ? savedPattern : 0);
+          setSong(JSON.parse(localStorage.getItem('fmsynth-song') || '[]'));
+          setGroove({ ...createGroove(), ...JSON.parse(localStorage.getItem('fmsynth-groove') || '{}') });
+          setCcMappings(JSON.parse(localStorage.getItem('fmsynth-midi-map') || '[]'));
         } else {
-          setTracks(initialTracks);
+          setTracks(withAudio(initialTracks));
         }
       }
     } catch (e) {
       console.error('Failed to load saved tracks:', e);
-      setTracks(initialTracks);
+      setTracks(withAudio(initialTracks));
     }
 
+    // The worklet engine is the default, as only it runs operator self-feedback sample by sample;
+    // the node graph stays in use where AudioWorklet isn't available
+    loadFMWorklet(audioContext)
+      .then(() => {
+        if (audioContextRef.current !== audioContext) return;
+        tracksRef.current.forEach(track => track.activeSynth?.setEngine('worklet'));
+        setSynthEngine('worklet');
+      })
+      .catch(error => console.error('Failed to load the worklet engine, using the node graph:', error));
+
     return () => {
-      if (intervalRef.current) {
-        clearTimeout(intervalRef.current);
-      }
       if (audioContextRef.current) {
         audioContextRef.current.close();
       }
@@ -329,125 +412,184 @@ export const Sequencer = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  // Ducking helper function
-  const triggerDucking = () => {
-    const currentTime = audioContextRef.current?.currentTime || 0;
-
-    tracksRef.current.forEach((track) => {
-      if (track.duckingEnabled && track.duckingGain) {
-        const releaseTime = track.duckingRelease;
-        const duckAmount = track.duckingAmount;
-
-        // Instant duck down
-        track.duckingGain.gain.cancelScheduledValues(currentTime);
-        track.duckingGain.gain.setValueAtTime(track.duckingGain.gain.value, currentTime);
-        track.duckingGain.gain.linearRampToValueAtTime(duckAmount, currentTime + 0.001);
-
-        // Release back to 1.0
-        track.duckingGain.gain.linearRampToValueAtTime(1.0, currentTime + 0.001 + releaseTime);
-      }
-    });
-  };
-
   useEffect(() => {
     currentStepRef.current = currentStep;
   }, [currentStep]);
 
-  // Playback engine with shuffle support
+  // Playback engine: look-ahead scheduler on the audio clock with shuffle support
   useEffect(() => {
-    let cancelled = false;
+    const audioContext = audioContextRef.current;
+    if (!isPlaying || !audioContext) {
+      return;
+    }
 
-    if (isPlaying && audioContextRef.current) {
-      const baseDuration = (60 / bpm / 4) * 1000; // milliseconds per step
+    // Browsers keep the context suspended until a user gesture
+    audioContext.resume();
+
+    // Song mode always plays the arrangement from the top
+    const playSong = songModeRef.current;
+    let songBar = 0;
+    let songEnded = false;
+    let songBpm: number | null = null; // Tempo override of the playing section
+    let sectionMutes: number[] = []; // Tracks the playing section mutes, on top of the tracks' own mutes
+    // Conditional trigs count loops from this start, wherever the transport resumes
+    const loopCounters: LoopCounters = new Map();
+    if (playSong) {
+      currentStepRef.current = 0;
+    }
 
-      const scheduleNextStep = (step: number) => {
-        if (cancelled) {
-          return;
-        }
+    const getTempo = () => songBpm ?? bpmRef.current;
 
-        currentStepRef.current = step;
+    // UI changes of scheduled steps, applied once the playhead reaches their step
+    const stepUpdates: { step: number; apply: () => void }[] = [];
+    const applyStepUpdates = (playingStep: number) => {
+      while (stepUpdates.length > 0 && stepUpdates[0].step <= playingStep) {
+        stepUpdates.shift()!.apply();
+      }
+    };
 
-        // Trigger sounds for active steps
-        tracksRef.current.forEach(track => {
-          if (track.steps[step] && track.activeSynth && !track.isMuted) {
-            const pitchMultiplier = track.pitchEnabled ? (track.pitchMap[step] || 1) : 1;
-            const adjustedFrequency = track.frequency * pitchMultiplier;
-
-            // Get velocity for this step
-            const velocity = track.velocityMap[step] || 1;
-
-            // Use note length setting (in steps)
-            const noteDuration = (baseDuration * track.noteLength) / 1000;
-
-            // Apply LFO only if enabled
-            const effectiveLfo = track.lfoEnabled ? track.lfo : { frequency: 0, depth: 0 };
-
-            // Apply pitch envelope only if enabled
-            const effectivePitchEnv = track.pitchEnabled ? track.pitchEnvelope : undefined;
-
-            // Reuse the same synth instance (monophonic)
-            track.activeSynth.trigger(
-              adjustedFrequency,
-              noteDuration,
-              track.operators,
-              effectiveLfo,
-              track.algorithm,
-              effectivePitchEnv,
-              velocity
-            );
+    // Make a pattern live from `step` on: the scheduler plays it right away, the UI switches when it is heard
+    const changePattern = (step: number, pattern: number) => {
+      const from = activePatternRef.current;
+      const change = (track: TrackData) => (pattern === from ? track : switchPattern(track, from, pattern));
+      tracksRef.current = tracksRef.current.map(change);
+      activePatternRef.current = pattern;
+      queuedPatternRef.current = null;
+      pendingSwitchesRef.current.push({ from, to: pattern });
+      stepUpdates.push({
+        step,
+        apply: () => {
+          pendingSwitchesRef.current.shift();
+          setTracks(prev => prev.map(change));
+          setActivePattern(pattern);
+          setQueuedPattern(queued => (queued === pattern ? null : queued));
+        },
+      });
+    };
 
-            // Trigger ducking when CH1 (Kick) plays
-            if (track.id === 0) {
-              triggerDucking();
-            }
+    const clockMode = midiClockMode;
+    let clockStarted = false;
+
+    const onStep = (step: number, time: number) => {
+      if (songEnded) return;
+
+      if (step % stepCountRef.current === 0) {
+        if (playSong) {
+          // Each bar plays the arrangement's section for that bar; sections set pattern, tempo and mutes
+          const position = getSongPosition(songRef.current, songBar);
+          songBar += 1;
+          if (!position) {
+            songEnded = true;
+            setIsPlaying(false);
+            return;
           }
-        });
-
-        // Update visual step indicator
-        setCurrentStep(step);
-
-        // Calculate next step delay with shuffle
-        const nextStep = (step + 1) % stepCount;
-        let delay = baseDuration;
-
-        // Apply shuffle: every odd 16th note (1, 3, 5, 7, etc.) gets delayed
-        // Shuffle value 0-1: 0 = no swing, 1 = max swing (triplet feel)
-        if (step % 2 === 0 && shuffle > 0) {
-          // Current step is even (0, 2, 4...), next will be odd - add swing delay
-          delay = baseDuration * (1 + shuffle * 0.5); // Up to 1.5x duration for full shuffle
-        } else if (step % 2 === 1 && shuffle > 0) {
-          // Current step is odd (1, 3, 5...), next will be even - subtract to compensate
-          delay = baseDuration * (1 - shuffle * 0.5); // Down to 0.5x duration
+          if (position.repeat === 0) {
+            const section = songRef.current[position.section];
+            songBpm = section.bpm;
+            sectionMutes = section.mutedTrackIds;
+            changePattern(step, section.pattern);
+          }
+          stepUpdates.push({ step, apply: () => setSongPosition(position) });
+        } else if (queuedPatternRef.current !== null) {
+          // A queued pattern takes over at the start of the next bar (master pattern length)
+          changePattern(step, queuedPatternRef.current);
         }
+      }
 
-        // Schedule next step
-        intervalRef.current = window.setTimeout(() => {
-          if (!cancelled) {
-            scheduleNextStep(nextStep);
+      const baseDuration = getBaseStepDuration(getTempo());
+      const output = midiOutputRef.current;
+
+      // As clock master, start external gear on the first step and keep it clocked
+      if (output && clockMode === 'master') {
+        if (!clockStarted) {
+          if (step === 0) {
+            output.send([MIDI_START], time);
+          } else {
+            output.send(songPositionMessage(step % 0x4000), time);
+            output.send([MIDI_CONTINUE], time);
           }
-        }, delay);
-      };
+          clockStarted = true;
+        }
+        getStepClockTimes(step, time, baseDuration, shuffleRef.current).forEach(pulseTime =>
+          output.send([MIDI_CLOCK], pulseTime)
+        );
+      }
+
+      // Trigger sounds for active steps (and mirror them as MIDI notes)
+      playStep(tracksRef.current, step, baseDuration, time, {
+        loopCounters,
+        fill: fillRef.current,
+        groove: grooveRef.current,
+        mutedTrackIds: sectionMutes,
+        onTrigger:
+          output && midiNotesOutRef.current
+            ? (track, noteTime, velocity) => {
+                // Same notes as in exported MIDI files, ratchets included
+                getStepMidiNotes(track, getTrackStep(track, step), velocity).forEach(note => {
+                  const start = noteTime + note.offset * baseDuration;
+                  output.send(noteOnMessage(GM_DRUM_CHANNEL, note.note, note.velocity * 127), start);
+                  output.send(noteOffMessage(GM_DRUM_CHANNEL, note.note), start + note.length * baseDuration);
+                });
+              }
+            : undefined,
+      });
+    };
 
-      // Start playback
-      const startStep = currentStepRef.current % stepCount;
-      scheduleNextStep(startStep < 0 ? (startStep + stepCount) % stepCount : startStep);
-    } else {
-      if (intervalRef.current) {
-        clearTimeout(intervalRef.current);
-        intervalRef.current = null;
+    // As clock slave, steps are played when the external clock reaches them
+    if (clockMode === 'slave') {
+      externalStepRef.current = step => {
+        onStep(step, audioContext.currentTime);
+        applyStepUpdates(step);
+        currentStepRef.current = step;
+        setCurrentStep(step);
+      };
+      if (pendingExternalStepRef.current !== null) {
+        externalStepRef.current(pendingExternalStepRef.current);
+        pendingExternalStepRef.current = null;
       }
-      currentStepRef.current = currentStepRef.current % Math.max(stepCount, 1);
+
+      return () => {
+        externalStepRef.current = null;
+        setSongPosition(null);
+      };
     }
 
+    const scheduler = new StepScheduler(audioContext, {
+      onStep,
+      getStepDuration: step => getStepDuration(step, getBaseStepDuration(getTempo()), shuffleRef.current),
+      // Leave room for steps nudged or grooved early
+      getStepLead: () => getBaseStepDuration(getTempo()) * (MAX_NUDGE + MAX_GROOVE_LEAD),
+    });
+
+    // Resume where playback stopped; steps keep counting so tracks of different lengths stay in phase
+    scheduler.start(currentStepRef.current);
+    schedulerRef.current = scheduler;
+
+    // Update visual step indicator from the audio clock, independent of scheduling
+    let animationFrame = requestAnimationFrame(function updatePlayhead() {
+      const playingStep = scheduler.getPlayingStep();
+      if (playingStep !== null) {
+        applyStepUpdates(playingStep);
+      }
+      if (playingStep !== null && playingStep !== currentStepRef.current) {
+        currentStepRef.current = playingStep;
+        setCurrentStep(playingStep);
+      }
+      animationFrame = requestAnimationFrame(updatePlayhead);
+    });
+
     return () => {
-      cancelled = true;
-      if (intervalRef.current) {
-        clearTimeout(intervalRef.current);
-        intervalRef.current = null;
+      scheduler.stop();
+      schedulerRef.current = null;
+      cancelAnimationFrame(animationFrame);
+      // Switches already scheduled may still sound; keep the UI on the pattern that was scheduled last
+      applyStepUpdates(Infinity);
+      setSongPosition(null);
+      if (clockMode === 'master') {
+        midiOutputRef.current?.send([MIDI_STOP]);
       }
-      currentStepRef.current = currentStepRef.current % Math.max(stepCount, 1);
     };
-  }, [isPlaying, bpm, stepCount, shuffle]);
+  }, [isPlaying, midiClockMode]);
 
   const toggleStep = (trackId: number, stepIndex: number) => {
     setTracks(prev =>
@@ -463,9 +605,12 @@ export const Sequencer = () => {
     setTracks(prev =>
       prev.map(track => ({
         ...track,
-        steps: new Array(64).fill(false),
-        pitchMap: new Array(64).fill(1),
-        velocityMap: new Array(64).fill(1),
+        steps: new Array(MAX_STEPS).fill(false),
+        pitchMap: new Array(MAX_STEPS).fill(1),
+        velocityMap: new Array(MAX_STEPS).fill(1),
+        nudgeMap: new Array(MAX_STEPS).fill(0),
+        parameterLocks: {},
+        stepTrigs: {},
       }))
     );
     setShuffle(0.0);
@@ -473,7 +618,7 @@ export const Sequencer = () => {
 
   const shareURL = () => {
     try {
-      const encoded = serializeState(tracks, bpm, stepCount, shuffle);
+      const encoded = serializeState(tracks, bpm, stepCount, shuffle, { activePattern, song, groove, ccMappings });
       const url = new URL(window.location.href);
       url.searchParams.set('state', encoded);
 
@@ -493,24 +638,138 @@ export const Sequencer = () => {
     }
   };
 
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportWAV = async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      const options = {
+        tracks,
+        bpm,
+        stepCount,
+        shuffle,
+        loops: exportLoops,
+        sampleRate: audioContextRef.current?.sampleRate,
+        groove,
+        engine: synthEngine,
+      };
+      const baseName = `fm-drums-${bpm}bpm-${exportLoops}x`;
+
+      if (exportStems) {
+        // Master mix plus one WAV per track, bundled into a single ZIP download
+        const { master, stems } = await renderStems(options, stemDucking);
+        const toBytes = async (buffer: AudioBuffer) =>
+          new Uint8Array(await audioBufferToWav(buffer, exportBitDepth).arrayBuffer());
+
+        const entries = [{ name: `${baseName}/master.wav`, data: await toBytes(master) }];
+        for (const { track, buffer } of stems) {
+          const index = tracks.indexOf(track) + 1;
+          const slug = track.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'track';
+          entries.push({
+            name: `${baseName}/${String(index).padStart(2, '0')}-${slug}-${stemDucking}.wav`,
+            data: await toBytes(buffer),
+          });
+        }
+
+        downloadBlob(new Blob([createZip(entries)], { type: 'application/zip' }), `${baseName}.zip`);
+        showToast('Stems exported!');
+      } else {
+        const buffer = await renderPattern(options);
+        downloadBlob(audioBufferToWav(buffer, exportBitDepth), `${baseName}.wav`);
+        showToast('WAV exported!');
+      }
+    } catch (error) {
+      console.error('Failed to export WAV:', error);
+      showToast('Failed to export WAV');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Export the live patterns as a type 1 MIDI file, one track per sequencer track, for the same number of loops as WAV exports
+  const exportMIDI = () => {
+    try {
+      const bytes = exportMidiFile({ tracks, bpm, stepCount, shuffle, loops: exportLoops, groove });
+      downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `fm-drums-${bpm}bpm-${exportLoops}x.mid`);
+      showToast('MIDI exported!');
+    } catch (error) {
+      console.error('Failed to export MIDI:', error);
+      showToast('Failed to export MIDI');
+    }
+  };
+
+  // Import a drum MIDI file into the live pattern: each track takes the hits of its MIDI note,
+  // quantized to steps over the project length. Tracks without hits in the file are left alone.
+  const importMIDI = async (file: File) => {
+    try {
+      const notes = quantizeMidiNotes(parseMidiFile(new Uint8Array(await file.arrayBuffer())), stepCount);
+      const trackNotes = new Set(tracks.map(track => track.midiNote));
+      const unmatched = notes.filter(note => !trackNotes.has(note.note)).length;
+      if (unmatched === notes.length) {
+        showToast('No notes in the file match a track\'s MIDI note');
+        return;
+      }
+
+      setTracks(prev =>
+        prev.map(track => {
+          const hits = notes.filter(note => note.note === track.midiNote);
+          if (hits.length === 0) return track;
+          const steps = new Array(MAX_STEPS).fill(false);
+          const velocityMap = new Array(MAX_STEPS).fill(1);
+          for (const hit of hits) {
+            // Two hits landing on one step keep the louder one
+            velocityMap[hit.step] = steps[hit.step] ? Math.max(velocityMap[hit.step], hit.velocity) : hit.velocity;
+            steps[hit.step] = true;
+          }
+          // The file replaces the whole pattern: no pitch, timing, locks or trigs of the old one
+          return loadPattern(track, { ...createEmptyPattern(stepCount), steps, velocityMap });
+        })
+      );
+      showToast(unmatched > 0 ? `MIDI imported (${unmatched} notes without a track)` : 'MIDI imported!');
+    } catch (error) {
+      console.error('Failed to import MIDI:', error);
+      showToast('Failed to import MIDI');
+    }
+  };
+
+  // Apply a sound edit to the track, or to the parameter lock of the step selected for locking
+  const editSound = (trackId: number, edit: (params: LockableParams) => Partial<LockableParams>) => {
+    const lockStep = lockSteps[trackId];
+    setTracks(prev =>
+      prev.map(track => {
+        if (track.id !== trackId) return track;
+        if (lockStep === undefined) return { ...track, ...edit(track) };
+
+        const lock = track.parameterLocks[lockStep];
+        const before = applyParameterLock(track, lock);
+        const after = { ...before, ...edit(before) };
+        return {
+          ...track,
+          parameterLocks: { ...track.parameterLocks, [lockStep]: recordParameterLock(lock, before, after) },
+        };
+      })
+    );
+  };
+
   const updateOperator = (
     trackId: number,
     opIndex: number,
     param: keyof OperatorParams,
     value: number
   ) => {
-    setTracks(prev =>
-      prev.map(track =>
-        track.id === trackId
-          ? {
-              ...track,
-              operators: track.operators.map((op, i) =>
-                i === opIndex ? { ...op, [param]: value } : op
-              ),
-            }
-          : track
-      )
-    );
+    editSound(trackId, params => ({
+      operators: params.operators.map((op, i) =>
+        i === opIndex ? { ...op, [param]: value } : op
+      ),
+    }));
   };
 
   const updateAllOperatorsADSR = (
@@ -518,12 +777,27 @@ export const Sequencer = () => {
     param: 'attack' | 'decay' | 'sustain' | 'release',
     value: number
   ) => {
+    editSound(trackId, params => ({
+      operators: params.operators.map(op => ({ ...op, [param]: value })),
+    }));
+  };
+
+  const updateOperatorWaveform = (trackId: number, opIndex: number, waveform: OperatorWaveform) => {
+    editSound(trackId, params => ({
+      operators: params.operators.map((op, i) => (i === opIndex ? { ...op, waveform } : op)),
+    }));
+  };
+
+  // Custom harmonics belong to the track (like the modulation matrix); only the waveform choice is lockable
+  const updateHarmonic = (trackId: number, opIndex: number, harmonic: number, value: number) => {
     setTracks(prev =>
       prev.map(track =>
         track.id === trackId
           ? {
               ...track,
-              operators: track.operators.map(op => ({ ...op, [param]: value })),
+              operators: track.operators.map((op, i) =>
+                i === opIndex ? { ...op, harmonics: op.harmonics.map((amplitude, h) => (h === harmonic ? value : amplitude)) } : op
+              ),
             }
           : track
       )
@@ -531,30 +805,53 @@ export const Sequencer = () => {
   };
 
   const updateLFO = (trackId: number, param: keyof LFOParams, value: number) => {
-    setTracks(prev =>
-      prev.map(track =>
-        track.id === trackId
-          ? { ...track, lfo: { ...track.lfo, [param]: value } }
-          : track
-      )
-    );
+    editSound(trackId, params => ({ lfo: { ...params.lfo, [param]: value } }));
   };
 
   const updatePitchEnvelope = (trackId: number, param: keyof PitchEnvelopeParams, value: number) => {
+    editSound(trackId, params => ({ pitchEnvelope: { ...params.pitchEnvelope, [param]: value } }));
+  };
+
+  const updateAlgorithm = (trackId: number, algorithm: FMAlgorithm) => {
+    editSound(trackId, () => ({ algorithm }));
+  };
+
+  // The custom routing belongs to the track, so it is edited directly even while a lock step is selected
+  const updateModulationMatrix = (trackId: number, modulationMatrix: ModulationMatrix) => {
+    setTracks(prev => prev.map(track => (track.id === trackId ? { ...track, modulationMatrix } : track)));
+  };
+
+  // Select a step whose parameter lock the sound controls edit (same step again = back to the track sound)
+  const selectLockStep = (trackId: number, stepIndex: number) => {
+    setLockSteps(prev => {
+      const next = { ...prev };
+      if (prev[trackId] === stepIndex) {
+        delete next[trackId];
+      } else {
+        next[trackId] = stepIndex;
+      }
+      return next;
+    });
+  };
+
+  const updateStepTrig = (trackId: number, stepIndex: number, changes: StepTrig) => {
     setTracks(prev =>
       prev.map(track =>
         track.id === trackId
-          ? { ...track, pitchEnvelope: { ...track.pitchEnvelope, [param]: value } }
+          ? { ...track, stepTrigs: { ...track.stepTrigs, [stepIndex]: { ...track.stepTrigs[stepIndex], ...changes } } }
           : track
       )
     );
   };
 
-  const updateAlgorithm = (trackId: number, algorithm: FMAlgorithm) => {
+  const clearParameterLock = (trackId: number, stepIndex: number) => {
     setTracks(prev =>
-      prev.map(track =>
-        track.id === trackId ? { ...track, algorithm } : track
-      )
+      prev.map(track => {
+        if (track.id !== trackId) return track;
+        const parameterLocks = { ...track.parameterLocks };
+        delete parameterLocks[stepIndex];
+        return { ...track, parameterLocks };
+      })
     );
   };
 
@@ -578,97 +875,412 @@ export const Sequencer = () => {
     );
   };
 
-  const updateNoteLength = (trackId: number, noteLength: number) => {
+  const updateNudgeMap = (trackId: number, stepIndex: number, nudge: number) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, noteLength } : track
+        track.id === trackId
+          ? { ...track, nudgeMap: track.nudgeMap.map((n, i) => (i === stepIndex ? nudge : n)) }
+          : track
       )
     );
   };
 
-  const toggleLFO = (trackId: number) => {
+  // Change the master length; tracks that were following it keep following it
+  const updateStepCount = (value: number) => {
+    const newStepCount = clampStepCount(value);
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, lfoEnabled: !track.lfoEnabled } : track
+        track.patternLength === stepCount ? { ...track, patternLength: newStepCount } : track
       )
     );
+    setStepCount(newStepCount);
   };
 
-  const togglePitch = (trackId: number) => {
+  const updatePatternLength = (trackId: number, patternLength: number) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, pitchEnabled: !track.pitchEnabled } : track
+        track.id === trackId ? { ...track, patternLength: clampStepCount(patternLength) } : track
       )
     );
   };
 
-  const togglePitchControl = (trackId: number) => {
+  const updateNoteLength = (trackId: number, noteLength: number) => {
+    editSound(trackId, () => ({ noteLength }));
+  };
+
+  const updatePolyphony = (trackId: number, chokeMode: ChokeMode, voiceCount: number) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, pitchControlVisible: !track.pitchControlVisible } : track
+        track.id === trackId ? { ...track, chokeMode, voiceCount } : track
       )
     );
   };
 
-  const toggleVelocityControl = (trackId: number) => {
+  const updateChokeGroup = (trackId: number, chokeGroup: number) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, velocityControlVisible: !track.velocityControlVisible } : track
+        track.id === trackId ? { ...track, chokeGroup } : track
       )
     );
   };
 
-  const toggleOperators = (trackId: number) => {
+  const updateGroove = (changes: Partial<Groove>) => {
+    setGroove(prev => ({ ...prev, ...changes }));
+  };
+
+  // Give the track its own groove (starting from the project groove's settings), or null to follow the project
+  const setTrackGroove = (trackId: number, template: GrooveTemplate | null) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, operatorsExpanded: !track.operatorsExpanded } : track
+        track.id === trackId
+          ? { ...track, groove: template === null ? null : { ...(track.groove ?? groove), template } }
+          : track
       )
     );
   };
 
-  const toggleLFOExpanded = (trackId: number) => {
+  const updateTrackGroove = (trackId: number, changes: Partial<Groove>) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, lfoExpanded: !track.lfoExpanded } : track
+        track.id === trackId && track.groove ? { ...track, groove: { ...track.groove, ...changes } } : track
       )
     );
   };
 
-  const togglePitchEnvExpanded = (trackId: number) => {
+  // Capture the track's micro-timing and accents as the project's custom groove
+  const extractTrackGroove = (trackId: number) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    setGroove(extractGroove(track));
+    showToast(`Groove extracted from ${track.name}`);
+  };
+
+  // Follow the external clock as slave: transport messages start/stop playback, pulses advance the steps and set the tempo
+  const handleMidiClock = (message: MidiMessage, timeStamp: number) => {
+    const follower = clockFollowerRef.current;
+    switch (message.type) {
+      case 'start':
+        follower.start();
+        pendingExternalStepRef.current = null;
+        currentStepRef.current = 0;
+        setIsPlaying(true);
+        break;
+      case 'continue':
+        follower.continue();
+        setIsPlaying(true);
+        break;
+      case 'stop':
+        follower.stop();
+        pendingExternalStepRef.current = null;
+        setIsPlaying(false);
+        break;
+      case 'songposition':
+        follower.setSongPosition(message.position);
+        currentStepRef.current = message.position;
+        setCurrentStep(message.position);
+        break;
+      case 'clock': {
+        const step = follower.clock(timeStamp);
+        const tempo = follower.getBpm();
+        if (tempo !== null && Math.round(tempo) !== bpm) {
+          setBpm(Math.round(tempo));
+        }
+        if (step !== null) {
+          if (externalStepRef.current) {
+            externalStepRef.current(step);
+          } else {
+            pendingExternalStepRef.current = step;
+          }
+        }
+        break;
+      }
+    }
+  };
+
+  // Current value of a MIDI-learnable parameter (as its control shows it, so a selected lock step is edited) and its setter
+  const getMidiParam = (target: MidiTarget): { value: number; set: (value: number) => void } | null => {
+    if (target.param === 'bpm') return { value: bpm, set: value => setBpm(Math.round(value)) };
+    if (target.param === 'shuffle') return { value: shuffle, set: setShuffle };
+
+    const baseTrack = tracks.find(t => t.id === target.trackId);
+    if (!baseTrack) return null;
+    const track = withLockView(baseTrack);
+    switch (target.param) {
+      case 'lfo.frequency':
+      case 'lfo.depth': {
+        const param = target.param === 'lfo.frequency' ? 'frequency' : 'depth';
+        return { value: track.lfo[param], set: value => updateLFO(track.id, param, value) };
+      }
+      case 'pitchEnvelope.attack':
+      case 'pitchEnvelope.decay':
+      case 'pitchEnvelope.depth': {
+        const param = target.param.split('.')[1] as keyof PitchEnvelopeParams;
+        return { value: track.pitchEnvelope[param], set: value => updatePitchEnvelope(track.id, param, value) };
+      }
+      case 'noteLength':
+        return { value: track.noteLength, set: value => updateNoteLength(track.id, value) };
+      case 'duckingAmount':
+        return { value: track.duckingAmount, set: value => updateDuckingAmount(track.id, value) };
+      case 'duckingRelease':
+        return { value: track.duckingRelease, set: value => updateDuckingRelease(track.id, value) };
+    }
+
+    // steps.<step>.<lane>
+    if (target.param.startsWith('steps.')) {
+      const [, stepText, lane] = target.param.split('.') as [string, string, StepMidiParam];
+      const step = Number(stepText);
+      switch (lane) {
+        case 'pitch':
+          return { value: track.pitchMap[step] || 1, set: value => updatePitchMap(track.id, step, value) };
+        case 'velocity':
+          return { value: track.velocityMap[step] || 1, set: value => updateVelocityMap(track.id, step, value) };
+        case 'nudge':
+          return { value: track.nudgeMap[step] ?? 0, set: value => updateNudgeMap(track.id, step, value) };
+      }
+    }
+
+    // operators.<index>.<param>
+    const [, index, param] = target.param.split('.') as [string, string, OperatorMidiParam];
+    const op = track.operators[Number(index)];
+    if (!op) return null;
+    return { value: op[param], set: value => updateOperator(track.id, Number(index), param, value) };
+  };
+
+  // In learn mode bind the controller to the selected control, otherwise move the parameter it is bound to
+  const handleMidiCc = (channel: number, controller: number, value: number) => {
+    if (midiCcLearn) {
+      if (!midiLearnTarget) return;
+      setCcMappings(prev => assignMapping(prev, { channel, controller, target: midiLearnTarget }));
+      setMidiLearnTarget(null);
+      showToast(`CC${controller} (ch ${channel + 1}) mapped`);
+      return;
+    }
+
+    const mapping = findMapping(ccMappings, channel, controller);
+    const param = mapping && getMidiParam(mapping.target);
+    if (!mapping || !param) return;
+    const { min, max } = getMidiParamRange(mapping.target.param);
+    const position = value / 127;
+    if (softTakeoverRef.current.accept(getTargetKey(mapping.target), position, (param.value - min) / (max - min))) {
+      param.set(min + position * (max - min));
+    }
+  };
+
+  const removeCcMapping = (target: MidiTarget) => {
+    setCcMappings(prev => prev.filter(mapping => getTargetKey(mapping.target) !== getTargetKey(target)));
+  };
+
+  // Props wiring a control into MIDI learn
+  const midiLearnProps = (target: MidiTarget) => {
+    const mapping = ccMappings.find(m => getTargetKey(m.target) === getTargetKey(target));
+    return {
+      learning: midiCcLearn,
+      selected: midiLearnTarget !== null && getTargetKey(midiLearnTarget) === getTargetKey(target),
+      mapping: mapping ? `CC${mapping.controller}` : null,
+      onSelect: () => setMidiLearnTarget(target),
+    };
+  };
+
+  // Play tracks from MIDI notes; learn a track's note, or record the hit at the nearest step while playing
+  const handleMidiMessage = (message: MidiMessage, timeStamp: number) => {
+    if (midiClockMode === 'slave') {
+      handleMidiClock(message, timeStamp);
+    }
+    if (message.type === 'cc') {
+      handleMidiCc(message.channel, message.controller, message.value);
+      return;
+    }
+    if (message.type !== 'noteon') return;
+
+    if (midiLearnTrackId !== null) {
+      setTracks(prev => prev.map(track => (track.id === midiLearnTrackId ? { ...track, midiNote: message.note } : track)));
+      setMidiLearnTrackId(null);
+      return;
+    }
+
+    const audioContext = audioContextRef.current;
+    if (!audioContext) return;
+    audioContext.resume();
+
+    const velocity = message.velocity / 127;
+    const hitTracks = tracksRef.current.filter(track => track.midiNote === message.note);
+    hitTracks.forEach(track =>
+      playTrackNote(tracksRef.current, track, velocity, getBaseStepDuration(bpm), audioContext.currentTime)
+    );
+
+    // Following an external clock there is no scheduler; record at the step that is playing
+    const nearestStep = midiClockMode === 'slave' ? (isPlaying ? currentStepRef.current : null) : schedulerRef.current?.getNearestStep();
+    const step = midiRecording ? nearestStep ?? null : null;
+    if (step === null || hitTracks.length === 0) return;
+    setTracks(prev =>
+      prev.map(track => {
+        if (track.midiNote !== message.note) return track;
+        const trackStep = getTrackStep(track, step);
+        return {
+          ...track,
+          steps: track.steps.map((s, i) => (i === trackStep ? true : s)),
+          velocityMap: track.velocityMap.map((v, i) => (i === trackStep ? velocity : v)),
+        };
+      })
+    );
+  };
+
+  // The MIDI listener outlives renders, so it always calls the latest handler
+  useEffect(() => {
+    midiMessageRef.current = handleMidiMessage;
+  });
+
+  const toggleMidi = async () => {
+    if (midiInputRef.current) {
+      midiInputRef.current.disconnect();
+      midiInputRef.current = null;
+      midiOutputRef.current?.disconnect();
+      midiOutputRef.current = null;
+      setMidiEnabled(false);
+      setMidiRecording(false);
+      setMidiLearnTrackId(null);
+      setMidiCcLearn(false);
+      setMidiLearnTarget(null);
+      setMidiClockMode('internal');
+      setMidiNotesOut(false);
+      return;
+    }
+
+    if (!MidiInput.isSupported()) {
+      showToast('Web MIDI is not supported in this browser');
+      return;
+    }
+
+    const audioContext = audioContextRef.current;
+    if (!audioContext) return;
+
+    try {
+      const input = new MidiInput((message, timeStamp) => midiMessageRef.current(message, timeStamp));
+      await input.connect();
+      const output = new MidiOutput(audioContext);
+      await output.connect();
+      midiInputRef.current = input;
+      midiOutputRef.current = output;
+      setMidiEnabled(true);
+      setMidiInputs(input.getInputNames());
+      setMidiOutputs(output.getOutputNames());
+      showToast(input.getInputNames().length > 0 ? 'MIDI connected' : 'MIDI enabled (no inputs found)');
+    } catch (error) {
+      console.error('Failed to access MIDI:', error);
+      showToast('MIDI access denied');
+    }
+  };
+
+  const updateMidiNote = (trackId: number, midiNote: number) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, pitchEnvExpanded: !track.pitchEnvExpanded } : track
+        track.id === trackId ? { ...track, midiNote: Math.max(0, Math.min(127, Math.round(midiNote) || 0)) } : track
       )
     );
   };
 
-  const toggleDucking = (trackId: number) => {
+  const toggleLFO = (trackId: number) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, duckingEnabled: !track.duckingEnabled } : track
+        track.id === trackId ? { ...track, lfoEnabled: !track.lfoEnabled } : track
       )
     );
   };
 
-  const toggleMute = (trackId: number) => {
+  const togglePitch = (trackId: number) => {
     setTracks(prev =>
       prev.map(track =>
-        track.id === trackId ? { ...track, isMuted: !track.isMuted } : track
+        track.id === trackId ? { ...track, pitchEnabled: !track.pitchEnabled } : track
       )
     );
   };
 
-  const copyTrackParams = (trackId: number) => {
-    const track = tracks.find(t => t.id === trackId);
-    if (!track) return;
+  const togglePitchControl = (trackId: number) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, pitchControlVisible: !track.pitchControlVisible } : track
+      )
+    );
+  };
 
-    const params = {
-      operators: track.operators,
-      lfo: track.lfo,
-      algorithm: track.algorithm,
-      pitchEnvelope: track.pitchEnvelope,
+  const toggleVelocityControl = (trackId: number) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, velocityControlVisible: !track.velocityControlVisible } : track
+      )
+    );
+  };
+
+  const toggleNudgeControl = (trackId: number) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, nudgeControlVisible: !track.nudgeControlVisible } : track
+      )
+    );
+  };
+
+  const toggleOperators = (trackId: number) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, operatorsExpanded: !track.operatorsExpanded } : track
+      )
+    );
+  };
+
+  const toggleLFOExpanded = (trackId: number) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, lfoExpanded: !track.lfoExpanded } : track
+      )
+    );
+  };
+
+  const togglePitchEnvExpanded = (trackId: number) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, pitchEnvExpanded: !track.pitchEnvExpanded } : track
+      )
+    );
+  };
+
+  const toggleDucking = (trackId: number) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, duckingEnabled: !track.duckingEnabled } : track
+      )
+    );
+  };
+
+  const renameTrack = (trackId: number, name: string) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, name: Array.from(name).slice(0, MAX_TRACK_NAME_LENGTH).join('') } : track
+      )
+    );
+  };
+
+  const toggleMute = (trackId: number) => {
+    setTracks(prev =>
+      prev.map(track =>
+        track.id === trackId ? { ...track, isMuted: !track.isMuted } : track
+      )
+    );
+  };
+
+  const copyTrackParams = (trackId: number) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    const params = {
+      operators: track.operators,
+      lfo: track.lfo,
+      algorithm: track.algorithm,
+      modulationMatrix: track.modulationMatrix,
+      pitchEnvelope: track.pitchEnvelope,
       noteLength: track.noteLength,
       frequency: track.frequency,
+      chokeMode: track.chokeMode,
+      voiceCount: track.voiceCount,
     };
 
     const json = JSON.stringify(params, null, 2);
@@ -686,12 +1298,15 @@ export const Sequencer = () => {
             if (track.id !== trackId) return track;
             return {
               ...track,
-              operators: params.operators || track.operators,
+              operators: params.operators ? migrateOperators(params.operators, params.frequency || track.frequency) : track.operators,
               lfo: params.lfo || track.lfo,
               algorithm: params.algorithm || track.algorithm,
+              modulationMatrix: params.modulationMatrix || track.modulationMatrix,
               pitchEnvelope: params.pitchEnvelope || track.pitchEnvelope,
               noteLength: params.noteLength || track.noteLength,
               frequency: params.frequency || track.frequency,
+              chokeMode: params.chokeMode || track.chokeMode,
+              voiceCount: params.voiceCount || track.voiceCount,
             };
           })
         );
@@ -703,100 +1318,183 @@ export const Sequencer = () => {
   };
 
   const resetToInitialSequence = () => {
-    setTracks(prev =>
-      prev.map((track, index) => {
-        // Define initial settings for each track
-        if (index === 0) {
-          // Kick
-          return {
-            ...track,
-            steps: new Array(64).fill(false).map((_, i) => i % 4 === 0 && i < 16),
-            frequency: 55,
-            operators: [
-              { frequency: 55, ratio: 1.57, level: 0.30846065929062844, attack: 0.001, decay: 0.2924691461314984, sustain: 0.3052622340820058, release: 0.23572082996985017, feedbackAmount: 0.5519581506267578 },
-              { frequency: 55, ratio: 1.48, level: 0.5927759298844391, attack: 0.001, decay: 0.09971183734862396, sustain: 0.15405327669189317, release: 0.33589217394922644, feedbackAmount: 0.7894718414985458 },
-              { frequency: 55, ratio: 2.33, level: 0.30651959266073736, attack: 0.001, decay: 0.17247350678078033, sustain: 0.010876614372196836, release: 0.2998970050614464, feedbackAmount: 0.31942793972654543 },
-              { frequency: 55, ratio: 1.88, level: 0.47632812369723265, attack: 0.001, decay: 0.15675361302425694, sustain: 0.33193765080781823, release: 0.08266122022775887, feedbackAmount: 0.2678397087736604 },
-            ],
-            lfo: { frequency: 7.289716616269852, depth: 0.2644860006832155 },
-            algorithm: 'parallel' as FMAlgorithm,
-            pitchEnvelope: { attack: 0.03263920787813766, decay: 0.0633337102583343, depth: 2 },
-            pitchMap: new Array(64).fill(1),
-            velocityMap: new Array(64).fill(1),
-            noteLength: 1.0,
-            lfoEnabled: true,
-            pitchEnabled: true,
-          };
-        } else if (index === 1) {
-          // Snare
-          return {
-            ...track,
-            steps: new Array(64).fill(false).map((_, i) => (i === 4 || i === 12) && i < 16),
-            frequency: 200,
-            operators: [
-              { frequency: 200, ratio: 1.5, level: 0.7, attack: 0.001, decay: 0.08, sustain: 0.1, release: 0.15, feedbackAmount: 0.5 },
-              { frequency: 200, ratio: 2.3, level: 0.5, attack: 0.001, decay: 0.06, sustain: 0.05, release: 0.12, feedbackAmount: 0.4 },
-              { frequency: 200, ratio: 3.7, level: 0.3, attack: 0.001, decay: 0.04, sustain: 0.02, release: 0.08, feedbackAmount: 0.3 },
-              { frequency: 200, ratio: 5.1, level: 0.8, attack: 0.001, decay: 0.08, sustain: 0.1, release: 0.15, feedbackAmount: 0.2 },
-            ],
-            lfo: { frequency: 10, depth: 0.05 },
-            algorithm: 'serial' as FMAlgorithm,
-            pitchEnvelope: { attack: 0.01, decay: 0.03, depth: 0.3 },
-            pitchMap: new Array(64).fill(1),
-            velocityMap: new Array(64).fill(1),
-            noteLength: 1.0,
-            lfoEnabled: true,
-            pitchEnabled: true,
-          };
-        } else if (index === 2) {
-          // HiHat
-          return {
-            ...track,
-            steps: new Array(64).fill(false).map((_, i) => i % 2 === 0 && i < 16),
-            frequency: 800,
-            operators: [
-              { frequency: 800, ratio: 2.1, level: 0.4, attack: 0.001, decay: 0.02, sustain: 0.0, release: 0.05, feedbackAmount: 0.7 },
-              { frequency: 800, ratio: 3.3, level: 0.3, attack: 0.001, decay: 0.015, sustain: 0.0, release: 0.04, feedbackAmount: 0.6 },
-              { frequency: 800, ratio: 4.7, level: 0.2, attack: 0.001, decay: 0.01, sustain: 0.0, release: 0.03, feedbackAmount: 0.5 },
-              { frequency: 800, ratio: 6.2, level: 0.7, attack: 0.001, decay: 0.02, sustain: 0.0, release: 0.05, feedbackAmount: 0.4 },
-            ],
-            lfo: { frequency: 20, depth: 0.1 },
-            algorithm: 'parallel' as FMAlgorithm,
-            pitchEnvelope: { attack: 0.005, decay: 0.02, depth: 0.2 },
-            pitchMap: new Array(64).fill(1),
-            velocityMap: new Array(64).fill(1),
-            noteLength: 0.5,
-            lfoEnabled: true,
-            pitchEnabled: false,
-          };
-        } else {
-          // Tom
-          return {
-            ...track,
-            steps: new Array(64).fill(false),
-            frequency: 110,
-            operators: [
-              { frequency: 110, ratio: 1.2, level: 0.7, attack: 0.001, decay: 0.15, sustain: 0.2, release: 0.2, feedbackAmount: 0.2 },
-              { frequency: 110, ratio: 1.8, level: 0.5, attack: 0.001, decay: 0.12, sustain: 0.15, release: 0.15, feedbackAmount: 0.1 },
-              { frequency: 110, ratio: 2.5, level: 0.3, attack: 0.001, decay: 0.1, sustain: 0.1, release: 0.1, feedbackAmount: 0.05 },
-              { frequency: 110, ratio: 3.2, level: 0.8, attack: 0.001, decay: 0.15, sustain: 0.2, release: 0.2, feedbackAmount: 0 },
-            ],
-            lfo: { frequency: 5, depth: 0.03 },
-            algorithm: 'hybrid1' as FMAlgorithm,
-            pitchEnvelope: { attack: 0.02, decay: 0.1, depth: 0.4 },
-            pitchMap: new Array(64).fill(1),
-            velocityMap: new Array(64).fill(1),
-            noteLength: 2.0,
-            lfoEnabled: true,
-            pitchEnabled: true,
-          };
+    const audioContext = audioContextRef.current;
+    if (!audioContext) return;
+
+    // Restore the default kit's sequence and sounds; extra tracks are removed
+    const defaults = createDefaultTracks();
+    tracks.slice(defaults.length).forEach(releaseTrackAudio);
+
+    let newId = nextTrackId(tracks);
+    setTracks(
+      defaults.map((preset, index) => {
+        const track = tracks[index];
+        if (!track) {
+          return createTrackAudio(audioContext, { ...preset, id: newId++ }, true, synthEngine);
         }
+        return {
+          ...track,
+          name: preset.name,
+          steps: preset.steps,
+          patternLength: preset.patternLength,
+          patterns: preset.patterns,
+          parameterLocks: preset.parameterLocks,
+          stepTrigs: preset.stepTrigs,
+          frequency: preset.frequency,
+          operators: preset.operators,
+          lfo: preset.lfo,
+          algorithm: preset.algorithm,
+          modulationMatrix: preset.modulationMatrix,
+          pitchEnvelope: preset.pitchEnvelope,
+          pitchMap: preset.pitchMap,
+          velocityMap: preset.velocityMap,
+          nudgeMap: preset.nudgeMap,
+          groove: preset.groove,
+          noteLength: preset.noteLength,
+          chokeMode: preset.chokeMode,
+          voiceCount: preset.voiceCount,
+          chokeGroup: preset.chokeGroup,
+          lfoEnabled: preset.lfoEnabled,
+          pitchEnabled: preset.pitchEnabled,
+        };
       })
     );
+    setStepCount(DEFAULT_STEP_COUNT);
+    setActivePattern(0);
+    setQueuedPattern(null);
     setShuffle(0.0);
+    setGroove(createGroove());
     showToast('初期シーケンスと音色をロードしました！');
   };
 
+  // Switch every track's synth to the other engine (the worklet module is loaded on first use)
+  const selectSynthEngine = async (engine: FMEngine) => {
+    const audioContext = audioContextRef.current;
+    if (!audioContext) return;
+
+    try {
+      if (engine === 'worklet') {
+        await loadFMWorklet(audioContext);
+      }
+      tracksRef.current.forEach(track => track.activeSynth?.setEngine(engine));
+      setSynthEngine(engine);
+    } catch (error) {
+      console.error('Failed to load the worklet engine:', error);
+      showToast('AudioWorklet engine is not available');
+    }
+  };
+
+  const addTrack = () => {
+    const audioContext = audioContextRef.current;
+    if (!audioContext || tracks.length >= MAX_TRACKS) return;
+
+    const track = {
+      ...createTrack(nextTrackId(tracks), `Track ${tracks.length + 1}`, stepCount),
+      midiNote: getDefaultMidiNote(tracks.length),
+    };
+    setTracks([...tracks, createTrackAudio(audioContext, track, true, synthEngine)]);
+  };
+
+  const duplicateTrack = (trackId: number) => {
+    const audioContext = audioContextRef.current;
+    const index = tracks.findIndex(t => t.id === trackId);
+    if (!audioContext || index < 0 || tracks.length >= MAX_TRACKS) return;
+
+    const source = tracks[index];
+    const copy = createTrackAudio(
+      audioContext,
+      {
+        ...source,
+        id: nextTrackId(tracks),
+        name: `${source.name} Copy`,
+      },
+      true,
+      synthEngine
+    );
+    setTracks([...tracks.slice(0, index + 1), copy, ...tracks.slice(index + 1)]);
+  };
+
+  const removeTrack = (trackId: number) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track || tracks.length <= 1) return;
+
+    releaseTrackAudio(track);
+    setTracks(tracks.filter(t => t.id !== trackId));
+  };
+
+  const moveTrack = (trackId: number, direction: -1 | 1) => {
+    setTracks(prev => {
+      const index = prev.findIndex(t => t.id === trackId);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  // Switch patterns right away when stopped; while playing, queue the switch for the end of the bar
+  const selectPattern = (index: number) => {
+    if (isPlaying) {
+      setQueuedPattern(index === activePattern || index === queuedPattern ? null : index);
+      return;
+    }
+    if (index === activePattern) return;
+
+    setTracks(prev => prev.map(track => switchPattern(track, activePattern, index)));
+    setActivePattern(index);
+  };
+
+  const copyPattern = () => {
+    setCopiedPattern(new Map(tracks.map(track => [track.id, getLivePattern(track)])));
+    showToast(`Pattern ${getPatternLabel(activePattern)} copied`);
+  };
+
+  // Paste into the active pattern; tracks added after copying are cleared
+  const pastePattern = () => {
+    if (!copiedPattern) return;
+    setTracks(prev =>
+      prev.map(track => loadPattern(track, copiedPattern.get(track.id) ?? createEmptyPattern(track.patternLength)))
+    );
+    showToast(`Pasted into pattern ${getPatternLabel(activePattern)}`);
+  };
+
+  const clearPattern = () => {
+    setTracks(prev => prev.map(track => loadPattern(track, createEmptyPattern(track.patternLength))));
+  };
+
+  const addSongSection = () => {
+    setSong(prev => (prev.length >= MAX_SONG_SECTIONS ? prev : [...prev, createSongSection(activePattern)]));
+  };
+
+  const updateSongSection = (index: number, changes: Partial<SongSection>) => {
+    setSong(prev => prev.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const toggleSectionMute = (index: number, trackId: number) => {
+    const section = song[index];
+    const mutedTrackIds = section.mutedTrackIds.includes(trackId)
+      ? section.mutedTrackIds.filter(id => id !== trackId)
+      : [...section.mutedTrackIds, trackId];
+    updateSongSection(index, { mutedTrackIds });
+  };
+
+  const removeSongSection = (index: number) => {
+    setSong(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const moveSongSection = (index: number, direction: -1 | 1) => {
+    setSong(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+
+      const reordered = [...prev];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
   const updateDuckingAmount = (trackId: number, amount: number) => {
     setTracks(prev =>
       prev.map(track =>
@@ -862,6 +1560,65 @@ export const Sequencer = () => {
     );
   };
 
+  // While a step is selected for locking, the sound controls show that step's locked sound
+  const withLockView = (track: TrackData): TrackData => {
+    const lockStep = lockSteps[track.id];
+    if (lockStep === undefined) return track;
+    return { ...track, ...applyParameterLock(track, track.parameterLocks[lockStep]) };
+  };
+
+  // Tracks muted by the song section being heard (a playback-only overlay on the tracks' own mutes)
+  const songMutedTrackIds = songPosition ? (song[songPosition.section]?.mutedTrackIds ?? []) : [];
+
+  // Settings of the selected groove template (shared by the project groove and per-track grooves)
+  const renderGrooveSettings = (value: Groove, onChange: (changes: Partial<Groove>) => void) => (
+    <>
+      {(value.template === 'swing' || value.template === 'triplet') && (
+        <select
+          value={value.resolution}
+          onChange={e => onChange({ resolution: Number(e.target.value) as GrooveResolution })}
+          style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+        >
+          <option value={16}>16th</option>
+          <option value={8}>8th</option>
+        </select>
+      )}
+      {value.template === 'swing' && (
+        <>
+          <input
+            type="range"
+            value={value.swing}
+            onChange={e => onChange({ swing: Number(e.target.value) })}
+            min={MIN_SWING}
+            max={MAX_SWING}
+            step={1}
+            style={{ width: '80px' }}
+          />
+          <span style={{ fontSize: '13px', color: '#999', minWidth: '40px' }}>{value.swing}%</span>
+        </>
+      )}
+      {value.template === 'drunk' && (
+        <>
+          <input
+            type="range"
+            value={value.humanize}
+            onChange={e => onChange({ humanize: Number(e.target.value) })}
+            min={0}
+            max={1}
+            step={0.01}
+            style={{ width: '80px' }}
+          />
+          <span style={{ fontSize: '13px', color: '#999', minWidth: '40px' }}>{(value.humanize * 100).toFixed(0)}%</span>
+        </>
+      )}
+      {value.template === 'custom' && (
+        <span style={{ fontSize: '12px', color: '#999' }}>
+          {value.timing.length > 0 ? `${value.timing.length} steps` : 'Extract a groove from a track'}
+        </span>
+      )}
+    </>
+  );
+
   return (
     <div style={{ fontFamily: 'system-ui, -apple-system, sans-serif', background: '#2a2a2a', color: '#e0e0e0', padding: '20px', fontSize: '14px', minHeight: '100vh' }}>
       <h1 style={{ textAlign: 'center', fontSize: '28px', margin: '0 0 24px 0', fontWeight: '300', letterSpacing: '2px' }}>FM DRUM MACHINE</h1>
@@ -886,17 +1643,40 @@ export const Sequencer = () => {
               gap: '8px',
             }}
           >
-            {isPlaying ? <><FaPause /> STOP</> : <><FaPlay /> PLAY</>}
+            {isPlaying ? <><FaPause /> STOP</> : <><FaPlay /> {songMode ? 'PLAY SONG' : 'PLAY'}</>}
           </button>
 
           <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
             <span>BPM</span>
+            <MidiLearnable {...midiLearnProps({ trackId: null, param: 'bpm' })}>
+              <input
+                type="number"
+                value={bpm}
+                onChange={e => setBpm(Number(e.target.value))}
+                min={40}
+                max={300}
+                style={{
+                  width: '60px',
+                  background: '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: '1px solid #5a5a5a',
+                  padding: '6px 8px',
+                  fontSize: '14px',
+                  borderRadius: '4px',
+                }}
+              />
+            </MidiLearnable>
+          </label>
+
+          <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span>Steps</span>
             <input
               type="number"
-              value={bpm}
-              onChange={e => setBpm(Number(e.target.value))}
-              min={40}
-              max={300}
+              value={stepCount}
+              onChange={e => updateStepCount(Number(e.target.value))}
+              min={1}
+              max={MAX_STEPS}
+              title="Master pattern length (tracks using the same length follow it)"
               style={{
                 width: '60px',
                 background: '#4a4a4a',
@@ -910,41 +1690,185 @@ export const Sequencer = () => {
           </label>
 
           <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
-            <span>Steps</span>
+            <span>Engine</span>
             <select
-              value={stepCount}
-              onChange={e => setStepCount(Number(e.target.value))}
+              value={synthEngine}
+              onChange={e => selectSynthEngine(e.target.value as FMEngine)}
+              title="Synthesis engine: per-sample phase modulation in an AudioWorklet, or per-note Web Audio node graphs (operator feedback is only approximated there, by a fixed waveform)"
+              style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+            >
+              <option value="worklet">AudioWorklet</option>
+              <option value="nodes">Node graph (approx. feedback)</option>
+            </select>
+          </label>
+
+          <button
+            onClick={() => setFill(!fill)}
+            title="Fill mode: plays steps with the 'fill' condition and skips 'not fill' steps"
+            style={{
+              background: fill ? '#ffffff' : '#4a4a4a',
+              color: fill ? '#2a2a2a' : '#e0e0e0',
+              border: '1px solid #5a5a5a',
+              padding: '6px 12px',
+              fontSize: '14px',
+              cursor: 'pointer',
+              borderRadius: '4px',
+              fontWeight: '500',
+            }}
+          >
+            FILL
+          </button>
+
+          <button
+            onClick={toggleMidi}
+            title={
+              midiEnabled
+                ? `MIDI inputs: ${midiInputs.join(', ') || 'none'} / outputs: ${midiOutputs.join(', ') || 'none'}`
+                : 'Connect MIDI controllers and external gear'
+            }
+            style={{
+              background: midiEnabled ? '#ffffff' : '#4a4a4a',
+              color: midiEnabled ? '#2a2a2a' : '#e0e0e0',
+              border: '1px solid #5a5a5a',
+              padding: '6px 12px',
+              fontSize: '14px',
+              cursor: 'pointer',
+              borderRadius: '4px',
+              fontWeight: '500',
+            }}
+          >
+            MIDI
+          </button>
+
+          {midiEnabled && (
+            <button
+              onClick={() => setMidiRecording(!midiRecording)}
+              title="Record MIDI hits into the pattern at the nearest step while playing"
+              style={{
+                background: midiRecording ? '#e53935' : '#4a4a4a',
+                color: '#e0e0e0',
+                border: '1px solid #5a5a5a',
+                padding: '6px 12px',
+                fontSize: '14px',
+                cursor: 'pointer',
+                borderRadius: '4px',
+                fontWeight: '500',
+              }}
+            >
+              REC
+            </button>
+          )}
+
+          {midiEnabled && (
+            <button
+              onClick={() => {
+                setMidiCcLearn(!midiCcLearn);
+                setMidiLearnTarget(null);
+              }}
+              title="MIDI learn: click a knob or slider, then move a controller to bind it"
+              style={{
+                background: midiCcLearn ? '#ffb74d' : '#4a4a4a',
+                color: midiCcLearn ? '#2a2a2a' : '#e0e0e0',
+                border: '1px solid #5a5a5a',
+                padding: '6px 12px',
+                fontSize: '14px',
+                cursor: 'pointer',
+                borderRadius: '4px',
+                fontWeight: '500',
+              }}
+            >
+              LEARN
+            </button>
+          )}
+
+          {midiCcLearn && midiLearnTarget && midiLearnProps(midiLearnTarget).mapping && (
+            <button
+              onClick={() => {
+                removeCcMapping(midiLearnTarget);
+                setMidiLearnTarget(null);
+              }}
+              title="Remove the controller bound to the selected control"
               style={{
                 background: '#4a4a4a',
                 color: '#e0e0e0',
                 border: '1px solid #5a5a5a',
-                padding: '6px 8px',
+                padding: '6px 12px',
                 fontSize: '14px',
+                cursor: 'pointer',
                 borderRadius: '4px',
+                fontWeight: '500',
               }}
             >
-              <option value={16}>16</option>
-              <option value={32}>32</option>
-              <option value={64}>64</option>
-            </select>
-          </label>
+              UNMAP
+            </button>
+          )}
 
-          <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
-            <span>Shuffle</span>
-            <input
-              type="range"
-              value={shuffle}
-              onChange={e => setShuffle(Number(e.target.value))}
-              min={0}
-              max={1}
-              step={0.01}
+          {midiEnabled && (
+            <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <span>Clock</span>
+              <select
+                value={midiClockMode}
+                onChange={e => setMidiClockMode(e.target.value as MidiClockMode)}
+                style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+              >
+                <option value="internal">Internal</option>
+                <option value="master">Send (master)</option>
+                <option value="slave">Follow (slave)</option>
+              </select>
+            </label>
+          )}
+
+          {midiEnabled && (
+            <button
+              onClick={() => setMidiNotesOut(!midiNotesOut)}
+              title="Send a MIDI note (channel 10, each track's MIDI note) for every step that plays"
               style={{
-                width: '80px',
+                background: midiNotesOut ? '#ffffff' : '#4a4a4a',
+                color: midiNotesOut ? '#2a2a2a' : '#e0e0e0',
+                border: '1px solid #5a5a5a',
+                padding: '6px 12px',
+                fontSize: '14px',
+                cursor: 'pointer',
+                borderRadius: '4px',
+                fontWeight: '500',
               }}
-            />
+            >
+              NOTE OUT
+            </button>
+          )}
+
+          <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span>Shuffle</span>
+            <MidiLearnable {...midiLearnProps({ trackId: null, param: 'shuffle' })} style={{ display: 'flex' }}>
+              <input
+                type="range"
+                value={shuffle}
+                onChange={e => setShuffle(Number(e.target.value))}
+                min={0}
+                max={1}
+                step={0.01}
+                style={{
+                  width: '80px',
+                }}
+              />
+            </MidiLearnable>
             <span style={{ fontSize: '13px', color: '#999', minWidth: '40px' }}>{(shuffle * 100).toFixed(0)}%</span>
           </label>
 
+          <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span>Groove</span>
+            <select
+              value={groove.template}
+              onChange={e => updateGroove({ template: e.target.value as GrooveTemplate })}
+              style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+            >
+              {GROOVE_TEMPLATES.map(template => (
+                <option key={template} value={template}>{GROOVE_TEMPLATE_LABELS[template]}</option>
+              ))}
+            </select>
+            {renderGrooveSettings(groove, updateGroove)}
+          </label>
+
           <button
             onClick={clearAll}
             style={{
@@ -1003,11 +1927,383 @@ export const Sequencer = () => {
             {urlCopied ? <FaCheck /> : <FaLink />}
             {urlCopied ? 'COPIED!' : 'SHARE URL'}
           </button>
+
+          <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span>Loops</span>
+            <input
+              type="number"
+              value={exportLoops}
+              onChange={e => setExportLoops(Math.max(1, Math.min(64, Math.round(Number(e.target.value)) || 1)))}
+              min={1}
+              max={64}
+              style={{
+                width: '50px',
+                background: '#4a4a4a',
+                color: '#e0e0e0',
+                border: '1px solid #5a5a5a',
+                padding: '6px 8px',
+                fontSize: '14px',
+                borderRadius: '4px',
+              }}
+            />
+          </label>
+
+          <select
+            value={exportBitDepth}
+            onChange={e => setExportBitDepth(Number(e.target.value) as WavBitDepth)}
+            style={{
+              background: '#4a4a4a',
+              color: '#e0e0e0',
+              border: '1px solid #5a5a5a',
+              padding: '6px 8px',
+              fontSize: '14px',
+              borderRadius: '4px',
+            }}
+          >
+            <option value={16}>16-bit</option>
+            <option value={24}>24-bit</option>
+          </select>
+
+          <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <input
+              type="checkbox"
+              checked={exportStems}
+              onChange={e => setExportStems(e.target.checked)}
+              style={{ width: '16px', height: '16px' }}
+            />
+            <span>Stems</span>
+          </label>
+
+          {exportStems && (
+            <select
+              value={stemDucking}
+              onChange={e => setStemDucking(e.target.value as DuckingTap)}
+              style={{
+                background: '#4a4a4a',
+                color: '#e0e0e0',
+                border: '1px solid #5a5a5a',
+                padding: '6px 8px',
+                fontSize: '14px',
+                borderRadius: '4px',
+              }}
+            >
+              <option value="pre">Pre-ducking</option>
+              <option value="post">Post-ducking</option>
+            </select>
+          )}
+
+          <button
+            onClick={exportWAV}
+            disabled={isExporting}
+            style={{
+              background: '#4a4a4a',
+              color: '#e0e0e0',
+              border: '1px solid #5a5a5a',
+              padding: '10px 24px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: isExporting ? 'wait' : 'pointer',
+              borderRadius: '4px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              opacity: isExporting ? 0.6 : 1,
+            }}
+          >
+            <FaDownload /> {isExporting ? 'RENDERING...' : 'EXPORT WAV'}
+          </button>
+
+          <button
+            onClick={exportMIDI}
+            title="Download the patterns as a MIDI file (one track per drum, GM channel 10)"
+            style={{
+              background: '#4a4a4a',
+              color: '#e0e0e0',
+              border: '1px solid #5a5a5a',
+              padding: '10px 24px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              borderRadius: '4px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+            }}
+          >
+            <FaDownload /> EXPORT MIDI
+          </button>
+
+          <button
+            onClick={() => midiFileInputRef.current?.click()}
+            title="Load a drum MIDI file into the pattern; notes go to the track with the matching MIDI note"
+            style={{
+              background: '#4a4a4a',
+              color: '#e0e0e0',
+              border: '1px solid #5a5a5a',
+              padding: '10px 24px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              borderRadius: '4px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+            }}
+          >
+            <FaFileImport /> IMPORT MIDI
+          </button>
+          <input
+            ref={midiFileInputRef}
+            type="file"
+            accept=".mid,.midi,audio/midi"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importMIDI(file);
+              e.target.value = '';
+            }}
+            style={{ display: 'none' }}
+          />
+        </div>
+      </div>
+
+      {/* Pattern Bank */}
+      <div style={{ background: '#3a3a3a', padding: '12px 16px', marginBottom: '20px', borderRadius: '4px', display: 'flex', gap: '12px', alignItems: 'center', flexWrap: 'wrap' }}>
+        <span style={{ fontSize: '14px' }}>Pattern</span>
+        <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+          {Array.from({ length: PATTERN_COUNT }, (_, i) => {
+            const isActive = i === activePattern;
+            const isQueued = i === queuedPattern;
+            const hasSteps = isActive || tracks.some(track => !isPatternEmpty(track.patterns[i]));
+            return (
+              <button
+                key={i}
+                onClick={() => selectPattern(i)}
+                title={isQueued ? 'Switches at the end of the bar' : `Pattern ${getPatternLabel(i)}`}
+                style={{
+                  width: '32px',
+                  height: '32px',
+                  background: isActive ? '#ffffff' : '#4a4a4a',
+                  color: isActive ? '#2a2a2a' : hasSteps ? '#e0e0e0' : '#777',
+                  border: isQueued ? '2px dashed #ffffff' : '1px solid #5a5a5a',
+                  fontSize: '13px',
+                  fontWeight: '500',
+                  cursor: 'pointer',
+                  borderRadius: '4px',
+                  padding: 0,
+                }}
+              >
+                {getPatternLabel(i)}
+              </button>
+            );
+          })}
+        </div>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {[
+            { label: 'Copy', icon: <FaCopy />, onClick: copyPattern, disabled: false },
+            { label: 'Paste', icon: <FaPaste />, onClick: pastePattern, disabled: !copiedPattern },
+            { label: 'Clear', icon: <FaTrash />, onClick: clearPattern, disabled: false },
+          ].map(({ label, icon, onClick, disabled }) => (
+            <button
+              key={label}
+              onClick={onClick}
+              disabled={disabled}
+              style={{
+                background: '#4a4a4a',
+                color: '#e0e0e0',
+                border: '1px solid #5a5a5a',
+                padding: '6px 12px',
+                fontSize: '12px',
+                cursor: disabled ? 'default' : 'pointer',
+                borderRadius: '4px',
+                fontWeight: '500',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                opacity: disabled ? 0.5 : 1,
+              }}
+            >
+              {icon} {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Song Arrangement */}
+      <div style={{ background: '#3a3a3a', padding: '12px 16px', marginBottom: '20px', borderRadius: '4px' }}>
+        <div style={{ display: 'flex', gap: '12px', alignItems: 'center', flexWrap: 'wrap' }}>
+          <button
+            onClick={() => setSongMode(!songMode)}
+            disabled={isPlaying}
+            title={isPlaying ? 'Stop playback to switch modes' : 'Play the arrangement instead of looping one pattern'}
+            style={{
+              background: songMode ? '#ffffff' : '#4a4a4a',
+              color: songMode ? '#2a2a2a' : '#e0e0e0',
+              border: '1px solid #5a5a5a',
+              padding: '6px 12px',
+              fontSize: '12px',
+              cursor: isPlaying ? 'default' : 'pointer',
+              borderRadius: '4px',
+              fontWeight: '500',
+            }}
+          >
+            SONG MODE
+          </button>
+          <span style={{ fontSize: '12px', color: '#999' }}>
+            {song.length} section{song.length === 1 ? '' : 's'}, {getSongLength(song)} bars
+          </span>
+          <button
+            onClick={addSongSection}
+            disabled={song.length >= MAX_SONG_SECTIONS}
+            style={{
+              background: '#4a4a4a',
+              color: '#e0e0e0',
+              border: '1px solid #5a5a5a',
+              padding: '6px 12px',
+              fontSize: '12px',
+              cursor: 'pointer',
+              borderRadius: '4px',
+              fontWeight: '500',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+            }}
+          >
+            <FaPlus /> Add Section ({getPatternLabel(activePattern)})
+          </button>
         </div>
+
+        {song.length > 0 && (
+          <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {song.map((section, index) => {
+              const isCurrent = songPosition?.section === index;
+              return (
+                <div
+                  key={index}
+                  style={{
+                    display: 'flex',
+                    gap: '10px',
+                    alignItems: 'center',
+                    flexWrap: 'wrap',
+                    padding: '6px 8px',
+                    borderRadius: '4px',
+                    background: isCurrent ? '#4a4a4a' : '#353535',
+                    border: isCurrent ? '1px solid #e0e0e0' : '1px solid transparent',
+                    fontSize: '12px',
+                  }}
+                >
+                  <span style={{ width: '24px', color: '#999', fontFamily: 'monospace' }}>{index + 1}</span>
+                  <select
+                    value={section.pattern}
+                    onChange={e => updateSongSection(index, { pattern: Number(e.target.value) })}
+                    style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+                  >
+                    {Array.from({ length: PATTERN_COUNT }, (_, i) => (
+                      <option key={i} value={i}>{getPatternLabel(i)}</option>
+                    ))}
+                  </select>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <span>×</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_SECTION_REPEATS}
+                      value={section.repeats}
+                      onChange={e => updateSongSection(index, { repeats: Math.max(1, Math.min(MAX_SECTION_REPEATS, Math.round(Number(e.target.value)) || 1)) })}
+                      style={{ width: '48px', background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+                    />
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                    <span>BPM</span>
+                    <input
+                      type="number"
+                      min={40}
+                      max={300}
+                      value={section.bpm ?? ''}
+                      placeholder={String(bpm)}
+                      onChange={e => updateSongSection(index, { bpm: e.target.value ? Number(e.target.value) : null })}
+                      style={{ width: '56px', background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+                    />
+                  </label>
+                  <div style={{ display: 'flex', gap: '2px', alignItems: 'center' }} title="Tracks muted in this section">
+                    {tracks.map((track, trackIndex) => {
+                      const muted = section.mutedTrackIds.includes(track.id);
+                      return (
+                        <button
+                          key={track.id}
+                          onClick={() => toggleSectionMute(index, track.id)}
+                          title={`${track.name}: ${muted ? 'muted' : 'playing'}`}
+                          style={{
+                            width: '22px',
+                            height: '22px',
+                            padding: 0,
+                            fontSize: '10px',
+                            background: muted ? '#d32f2f' : '#4a4a4a',
+                            color: '#e0e0e0',
+                            border: '1px solid #5a5a5a',
+                            borderRadius: '2px',
+                            cursor: 'pointer',
+                          }}
+                        >
+                          {trackIndex + 1}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {isCurrent && songPosition && (
+                    <span style={{ color: '#999', fontFamily: 'monospace' }}>
+                      {songPosition.repeat + 1}/{section.repeats}
+                    </span>
+                  )}
+                  <div style={{ marginLeft: 'auto', display: 'flex', gap: '4px' }}>
+                    <button onClick={() => moveSongSection(index, -1)} disabled={index === 0} title="Move up" style={{
+                    background: '#4a4a4a',
+                    color: '#e0e0e0',
+                    border: '1px solid #5a5a5a',
+                    padding: '4px 8px',
+                    fontSize: '11px',
+                    cursor: 'pointer',
+                    borderRadius: '4px',
+                    display: 'flex',
+                    alignItems: 'center',
+                  }}>
+                      <FaArrowUp />
+                    </button>
+                    <button onClick={() => moveSongSection(index, 1)} disabled={index === song.length - 1} title="Move down" style={{
+                    background: '#4a4a4a',
+                    color: '#e0e0e0',
+                    border: '1px solid #5a5a5a',
+                    padding: '4px 8px',
+                    fontSize: '11px',
+                    cursor: 'pointer',
+                    borderRadius: '4px',
+                    display: 'flex',
+                    alignItems: 'center',
+                  }}>
+                      <FaArrowDown />
+                    </button>
+                    <button onClick={() => removeSongSection(index)} title="Remove section" style={{
+                    background: '#4a4a4a',
+                    color: '#e0e0e0',
+                    border: '1px solid #5a5a5a',
+                    padding: '4px 8px',
+                    fontSize: '11px',
+                    cursor: 'pointer',
+                    borderRadius: '4px',
+                    display: 'flex',
+                    alignItems: 'center',
+                  }}>
+                      <FaTimes />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {/* Tracks */}
-      {tracks.map(track => (
+      {tracks.map(withLockView).map((track, trackIndex) => (
         <div
           key={track.id}
           style={{
@@ -1019,28 +2315,122 @@ export const Sequencer = () => {
         >
           {/* Track Header */}
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
-            <h3 style={{ margin: 0, fontSize: '18px', fontWeight: '500' }}>{track.name}</h3>
+            <input
+              type="text"
+              value={track.name}
+              onChange={(e) => renameTrack(track.id, e.target.value)}
+              onBlur={(e) => {
+                e.target.style.borderColor = 'transparent';
+                if (!e.target.value.trim()) renameTrack(track.id, `Track ${trackIndex + 1}`);
+              }}
+              maxLength={MAX_TRACK_NAME_LENGTH * 2}
+              title="Rename track"
+              style={{
+                margin: 0,
+                fontSize: '18px',
+                fontWeight: '500',
+                background: 'transparent',
+                color: '#e0e0e0',
+                border: '1px solid transparent',
+                borderRadius: '4px',
+                padding: '2px 4px',
+                minWidth: 0,
+                width: '240px',
+                fontFamily: 'inherit',
+              }}
+              onFocus={(e) => { e.target.style.borderColor = '#5a5a5a'; }}
+            />
             <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
               <button
-                onClick={() => toggleMute(track.id)}
+                onClick={() => toggleMute(track.id)}
+                title={songMutedTrackIds.includes(track.id) ? 'Muted by the playing song section' : undefined}
+                style={{
+                  background: track.isMuted ? '#d32f2f' : '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: songMutedTrackIds.includes(track.id) ? '1px solid #d32f2f' : '1px solid #5a5a5a',
+                  padding: '6px 12px',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                  borderRadius: '4px',
+                  fontWeight: '500',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}
+              >
+                {track.isMuted || songMutedTrackIds.includes(track.id) ? <FaVolumeMute /> : <FaVolumeUp />}
+              </button>
+              <button
+                onClick={() => randomizeTrack(track.id)}
+                style={{
+                  background: '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: '1px solid #5a5a5a',
+                  padding: '6px 12px',
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                  borderRadius: '4px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}
+              >
+                <FaRandom /> RAND
+              </button>
+              <button
+                onClick={() => randomizeSequence(track.id)}
+                style={{
+                  background: '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: '1px solid #5a5a5a',
+                  padding: '6px 12px',
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                  borderRadius: '4px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}
+              >
+                <FaRandom /> SEQ
+              </button>
+              <button
+                onClick={() => copyTrackParams(track.id)}
+                style={{
+                  background: '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: '1px solid #5a5a5a',
+                  padding: '6px 12px',
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                  borderRadius: '4px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}
+              >
+                <FaCopy />
+              </button>
+              <button
+                onClick={() => pasteTrackParams(track.id)}
                 style={{
-                  background: track.isMuted ? '#d32f2f' : '#4a4a4a',
+                  background: '#4a4a4a',
                   color: '#e0e0e0',
                   border: '1px solid #5a5a5a',
                   padding: '6px 12px',
-                  fontSize: '12px',
+                  fontSize: '13px',
                   cursor: 'pointer',
                   borderRadius: '4px',
-                  fontWeight: '500',
                   display: 'flex',
                   alignItems: 'center',
                   gap: '6px',
                 }}
               >
-                {track.isMuted ? <FaVolumeMute /> : <FaVolumeUp />}
+                <FaPaste />
               </button>
               <button
-                onClick={() => randomizeTrack(track.id)}
+                onClick={() => moveTrack(track.id, -1)}
+                disabled={trackIndex === 0}
                 style={{
                   background: '#4a4a4a',
                   color: '#e0e0e0',
@@ -1054,10 +2444,11 @@ export const Sequencer = () => {
                   gap: '6px',
                 }}
               >
-                <FaRandom /> RAND
+                <FaArrowUp />
               </button>
               <button
-                onClick={() => randomizeSequence(track.id)}
+                onClick={() => moveTrack(track.id, 1)}
+                disabled={trackIndex === tracks.length - 1}
                 style={{
                   background: '#4a4a4a',
                   color: '#e0e0e0',
@@ -1071,10 +2462,11 @@ export const Sequencer = () => {
                   gap: '6px',
                 }}
               >
-                <FaRandom /> SEQ
+                <FaArrowDown />
               </button>
               <button
-                onClick={() => copyTrackParams(track.id)}
+                onClick={() => duplicateTrack(track.id)}
+                disabled={tracks.length >= MAX_TRACKS}
                 style={{
                   background: '#4a4a4a',
                   color: '#e0e0e0',
@@ -1088,10 +2480,11 @@ export const Sequencer = () => {
                   gap: '6px',
                 }}
               >
-                <FaCopy />
+                <FaClone />
               </button>
               <button
-                onClick={() => pasteTrackParams(track.id)}
+                onClick={() => removeTrack(track.id)}
+                disabled={tracks.length <= 1}
                 style={{
                   background: '#4a4a4a',
                   color: '#e0e0e0',
@@ -1105,38 +2498,168 @@ export const Sequencer = () => {
                   gap: '6px',
                 }}
               >
-                <FaPaste />
+                <FaTimes />
               </button>
             </div>
           </div>
 
           {/* Note Sequencer - On/Off buttons */}
           <div style={{ marginBottom: '8px' }}>
-            <div style={{ fontSize: '13px', marginBottom: '4px', color: '#999' }}>Notes</div>
+            <div style={{ fontSize: '13px', marginBottom: '4px', color: '#999', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span>Notes</span>
+              <span style={{ fontSize: '11px', color: '#777' }}>Right-click a step to lock parameters</span>
+            </div>
             <div
               style={{
                 display: 'grid',
-                gridTemplateColumns: `repeat(${Math.min(stepCount, 16)}, 1fr)`,
+                gridTemplateColumns: `repeat(${Math.min(track.patternLength, 16)}, 1fr)`,
                 gap: '4px',
               }}
             >
-              {track.steps.slice(0, stepCount).map((active, i) => (
-                <button
-                  key={i}
-                  onClick={() => toggleStep(track.id, i)}
-                  style={{
-                    aspectRatio: '1',
-                    background: active ? '#ffffff' : '#4a4a4a',
-                    border: i === currentStep && isPlaying ? '2px solid #e0e0e0' : '1px solid #5a5a5a',
-                    cursor: 'pointer',
-                    borderRadius: '2px',
-                    padding: 0,
-                  }}
-                />
-              ))}
+              {track.steps.slice(0, track.patternLength).map((active, i) => {
+                const isLockStep = lockSteps[track.id] === i;
+                const isLocked = hasLockedValues(track.parameterLocks[i]);
+                const trig = track.stepTrigs[i];
+                const probability = trig?.probability ?? 1;
+                const hasCondition = (trig?.condition ?? 'always') !== 'always';
+                const ratchet = getRatchetCount(trig);
+                return (
+                  <button
+                    key={i}
+                    onClick={(e) => (e.shiftKey ? selectLockStep(track.id, i) : toggleStep(track.id, i))}
+                    onContextMenu={(e) => {
+                      e.preventDefault();
+                      selectLockStep(track.id, i);
+                    }}
+                    title={[
+                      `Step ${i + 1}`,
+                      isLocked && 'parameter lock',
+                      probability < 1 && `${Math.round(probability * 100)}%`,
+                      hasCondition && trig?.condition,
+                      ratchet > 1 && `ratchet x${ratchet}`,
+                    ].filter(Boolean).join(' · ')}
+                    style={{
+                      aspectRatio: '1',
+                      background: active ? `rgba(255, 255, 255, ${0.35 + probability * 0.65})` : '#4a4a4a',
+                      border: isLockStep
+                        ? '2px solid #ffb74d'
+                        : i === getTrackStep(track, currentStep) && isPlaying ? '2px solid #e0e0e0' : '1px solid #5a5a5a',
+                      boxShadow: [isLocked && 'inset 0 -4px 0 #ffb74d', hasCondition && 'inset 0 4px 0 #64b5f6']
+                        .filter(Boolean)
+                        .join(', ') || 'none',
+                      cursor: 'pointer',
+                      borderRadius: '2px',
+                      padding: 0,
+                      fontSize: '9px',
+                      color: active ? '#2a2a2a' : '#999',
+                    }}
+                  >
+                    {ratchet > 1 ? ratchet : null}
+                  </button>
+                );
+              })}
             </div>
           </div>
 
+          {/* Parameter lock editing banner */}
+          {lockSteps[track.id] !== undefined && (
+            <div
+              style={{
+                marginBottom: '12px',
+                padding: '8px 12px',
+                border: '1px solid #ffb74d',
+                borderRadius: '4px',
+                display: 'flex',
+                gap: '12px',
+                alignItems: 'center',
+                flexWrap: 'wrap',
+                fontSize: '12px',
+              }}
+            >
+              <span style={{ color: '#ffb74d', fontWeight: '500' }}>P-LOCK STEP {lockSteps[track.id] + 1}</span>
+              <span style={{ color: '#999' }}>Sound controls below edit this step only</span>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <span>Probability</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={track.stepTrigs[lockSteps[track.id]]?.probability ?? 1}
+                  onChange={e => updateStepTrig(track.id, lockSteps[track.id], { probability: Number(e.target.value) })}
+                  style={{ width: '80px' }}
+                />
+                <span style={{ color: '#999', minWidth: '32px' }}>
+                  {Math.round((track.stepTrigs[lockSteps[track.id]]?.probability ?? 1) * 100)}%
+                </span>
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <span>Condition</span>
+                <select
+                  value={track.stepTrigs[lockSteps[track.id]]?.condition ?? 'always'}
+                  onChange={e => updateStepTrig(track.id, lockSteps[track.id], { condition: e.target.value as TrigCondition })}
+                  style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+                >
+                  {TRIG_CONDITIONS.map(condition => (
+                    <option key={condition} value={condition}>{condition}</option>
+                  ))}
+                </select>
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <span>Ratchet</span>
+                <select
+                  value={getRatchetCount(track.stepTrigs[lockSteps[track.id]])}
+                  onChange={e => updateStepTrig(track.id, lockSteps[track.id], { ratchet: Number(e.target.value) })}
+                  style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+                >
+                  {RATCHET_COUNTS.map(count => (
+                    <option key={count} value={count}>{count === 1 ? 'off' : `x${count}`}</option>
+                  ))}
+                </select>
+                <select
+                  value={track.stepTrigs[lockSteps[track.id]]?.ratchetRamp ?? 'none'}
+                  onChange={e => updateStepTrig(track.id, lockSteps[track.id], { ratchetRamp: e.target.value as RatchetRamp })}
+                  disabled={getRatchetCount(track.stepTrigs[lockSteps[track.id]]) === 1}
+                  title="Velocity ramp across the ratchet hits"
+                  style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+                >
+                  {RATCHET_RAMPS.map(ramp => (
+                    <option key={ramp} value={ramp}>{ramp === 'none' ? 'flat' : `ramp ${ramp}`}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => clearParameterLock(track.id, lockSteps[track.id])}
+                style={{
+                  marginLeft: 'auto',
+                  background: '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: '1px solid #5a5a5a',
+                  padding: '4px 10px',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                  borderRadius: '4px',
+                }}
+              >
+                Clear Lock
+              </button>
+              <button
+                onClick={() => selectLockStep(track.id, lockSteps[track.id])}
+                style={{
+                  background: '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: '1px solid #5a5a5a',
+                  padding: '4px 10px',
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                  borderRadius: '4px',
+                }}
+              >
+                Done
+              </button>
+            </div>
+          )}
+
           {/* Control Toggle Buttons */}
           <div style={{ marginBottom: '12px', display: 'flex', gap: '8px' }}>
             <button
@@ -1169,6 +2692,21 @@ export const Sequencer = () => {
             >
               Velocity Control
             </button>
+            <button
+              onClick={() => toggleNudgeControl(track.id)}
+              style={{
+                background: track.nudgeControlVisible ? '#ffffff' : '#4a4a4a',
+                color: track.nudgeControlVisible ? '#2a2a2a' : '#e0e0e0',
+                border: '1px solid #5a5a5a',
+                padding: '6px 12px',
+                fontSize: '12px',
+                cursor: 'pointer',
+                borderRadius: '4px',
+                fontWeight: '500',
+              }}
+            >
+              Timing Control
+            </button>
           </div>
 
           {/* Pitch Control - Independent input for each step */}
@@ -1181,22 +2719,24 @@ export const Sequencer = () => {
               <div
                 style={{
                   display: 'grid',
-                  gridTemplateColumns: `repeat(${Math.min(stepCount, 16)}, 1fr)`,
+                  gridTemplateColumns: `repeat(${Math.min(track.patternLength, 16)}, 1fr)`,
                   gap: '4px',
                 }}
               >
-                {Array.from({ length: Math.min(stepCount, 16) }, (_, i) => {
+                {Array.from({ length: track.patternLength }, (_, i) => {
                   const pitchMult = track.pitchMap[i] || 1;
                   return (
                     <div key={i} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '4px' }}>
-                      <RectSlider
-                        value={pitchMult}
-                        min={0.5}
-                        max={2.0}
-                        step={0.1}
-                        onChange={(value) => updatePitchMap(track.id, i, value)}
-                        opacity={track.steps[i] ? 1 : 0.5}
-                      />
+                      <MidiLearnable {...midiLearnProps({ trackId: track.id, param: getStepMidiParam(i, 'pitch') })}>
+                        <RectSlider
+                          value={pitchMult}
+                          min={0.5}
+                          max={2.0}
+                          step={0.1}
+                          onChange={(value) => updatePitchMap(track.id, i, value)}
+                          opacity={track.steps[i] ? 1 : 0.5}
+                        />
+                      </MidiLearnable>
                       <div style={{ fontSize: '9px', color: track.steps[i] ? '#ffffff' : '#666', fontFamily: 'monospace', height: '12px' }}>
                         {pitchMult.toFixed(1)}
                       </div>
@@ -1217,22 +2757,24 @@ export const Sequencer = () => {
             <div
               style={{
                 display: 'grid',
-                gridTemplateColumns: `repeat(${Math.min(stepCount, 16)}, 1fr)`,
+                gridTemplateColumns: `repeat(${Math.min(track.patternLength, 16)}, 1fr)`,
                 gap: '4px',
               }}
             >
-              {Array.from({ length: Math.min(stepCount, 16) }, (_, i) => {
+              {Array.from({ length: track.patternLength }, (_, i) => {
                 const velocity = track.velocityMap[i] || 1;
                 return (
                   <div key={i} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '4px' }}>
-                    <RectSlider
-                      value={velocity}
-                      min={0.0}
-                      max={1.0}
-                      step={0.05}
-                      onChange={(value) => updateVelocityMap(track.id, i, value)}
-                      opacity={track.steps[i] ? 1 : 0.5}
-                    />
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: getStepMidiParam(i, 'velocity') })}>
+                      <RectSlider
+                        value={velocity}
+                        min={0.0}
+                        max={1.0}
+                        step={0.05}
+                        onChange={(value) => updateVelocityMap(track.id, i, value)}
+                        opacity={track.steps[i] ? 1 : 0.5}
+                      />
+                    </MidiLearnable>
                     <div style={{ fontSize: '9px', color: track.steps[i] ? '#ffffff' : '#666', fontFamily: 'monospace', height: '12px' }}>
                       {(velocity * 100).toFixed(0)}%
                     </div>
@@ -1243,21 +2785,210 @@ export const Sequencer = () => {
           </div>
           )}
 
+          {/* Micro-timing Control - Independent input for each step */}
+          {track.nudgeControlVisible && (
+          <div style={{ marginBottom: '16px' }}>
+            <div style={{ fontSize: '13px', marginBottom: '4px', color: '#999', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span>Timing per Step (-{MAX_NUDGE * 100}% - +{MAX_NUDGE * 100}%)</span>
+              <span style={{ fontSize: '11px', color: '#777' }}>Drag up to push late, down to pull early</span>
+            </div>
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: `repeat(${Math.min(track.patternLength, 16)}, 1fr)`,
+                gap: '4px',
+              }}
+            >
+              {Array.from({ length: track.patternLength }, (_, i) => {
+                const nudge = track.nudgeMap[i] ?? 0;
+                return (
+                  <div key={i} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '4px' }}>
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: getStepMidiParam(i, 'nudge') })}>
+                      <RectSlider
+                        value={nudge}
+                        min={-MAX_NUDGE}
+                        max={MAX_NUDGE}
+                        step={0.01}
+                        onChange={(value) => updateNudgeMap(track.id, i, value)}
+                        opacity={track.steps[i] ? 1 : 0.5}
+                      />
+                    </MidiLearnable>
+                    <div style={{ fontSize: '9px', color: track.steps[i] ? '#ffffff' : '#666', fontFamily: 'monospace', height: '12px' }}>
+                      {nudge > 0 ? '+' : ''}{Math.round(nudge * 100)}%
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          )}
+
           {/* Main Controls */}
           <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '12px', marginBottom: '16px' }}>
             <div>
-              <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Note Length</label>
+              <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Pattern Length</label>
               <input
-                type="range"
-                min={0.1}
-                max={8}
-                step={0.1}
-                value={track.noteLength}
-                onChange={e => updateNoteLength(track.id, Number(e.target.value))}
-                style={{ width: '100%' }}
+                type="number"
+                min={1}
+                max={MAX_STEPS}
+                value={track.patternLength}
+                onChange={e => updatePatternLength(track.id, Number(e.target.value))}
+                style={{
+                  width: '60px',
+                  background: '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: '1px solid #5a5a5a',
+                  padding: '4px 6px',
+                  fontSize: '12px',
+                  borderRadius: '4px',
+                }}
               />
+              <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>
+                {track.patternLength === stepCount ? 'steps' : `steps (master ${stepCount})`}
+              </div>
+            </div>
+
+            <div>
+              <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Note Length</label>
+              <MidiLearnable {...midiLearnProps({ trackId: track.id, param: 'noteLength' })}>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={8}
+                  step={0.1}
+                  value={track.noteLength}
+                  onChange={e => updateNoteLength(track.id, Number(e.target.value))}
+                  style={{ width: '100%' }}
+                />
+              </MidiLearnable>
               <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{track.noteLength.toFixed(1)}</div>
             </div>
+
+            <div>
+              <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Voices</label>
+              <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                <select
+                  value={track.chokeMode}
+                  onChange={e => updatePolyphony(track.id, e.target.value as ChokeMode, track.voiceCount)}
+                  style={{
+                    background: '#4a4a4a',
+                    color: '#e0e0e0',
+                    border: '1px solid #5a5a5a',
+                    padding: '4px 6px',
+                    fontSize: '12px',
+                    borderRadius: '4px',
+                  }}
+                >
+                  <option value="mono">Mono (choke)</option>
+                  <option value="poly">Poly</option>
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_VOICES}
+                  value={track.voiceCount}
+                  onChange={e => updatePolyphony(track.id, track.chokeMode, Math.max(1, Math.min(MAX_VOICES, Math.round(Number(e.target.value)) || 1)))}
+                  disabled={track.chokeMode !== 'poly'}
+                  style={{
+                    width: '44px',
+                    background: '#4a4a4a',
+                    color: '#e0e0e0',
+                    border: '1px solid #5a5a5a',
+                    padding: '4px 6px',
+                    fontSize: '12px',
+                    borderRadius: '4px',
+                    opacity: track.chokeMode === 'poly' ? 1 : 0.5,
+                  }}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Choke Group</label>
+              <select
+                value={track.chokeGroup}
+                onChange={e => updateChokeGroup(track.id, Number(e.target.value))}
+                style={{
+                  background: '#4a4a4a',
+                  color: '#e0e0e0',
+                  border: '1px solid #5a5a5a',
+                  padding: '4px 6px',
+                  fontSize: '12px',
+                  borderRadius: '4px',
+                }}
+              >
+                <option value={0}>None</option>
+                {Array.from({ length: CHOKE_GROUP_COUNT }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>Group {i + 1}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>MIDI Note</label>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <input
+                  type="number"
+                  min={0}
+                  max={127}
+                  value={track.midiNote}
+                  onChange={e => updateMidiNote(track.id, Number(e.target.value))}
+                  style={{ ...{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }, width: '50px' }}
+                />
+                <button
+                  onClick={() => setMidiLearnTrackId(midiLearnTrackId === track.id ? null : track.id)}
+                  disabled={!midiEnabled}
+                  title="Assign the next MIDI note played to this track"
+                  style={{
+                    background: midiLearnTrackId === track.id ? '#ffb74d' : '#4a4a4a',
+                    color: midiLearnTrackId === track.id ? '#2a2a2a' : '#e0e0e0',
+                    border: '1px solid #5a5a5a',
+                    padding: '4px 8px',
+                    fontSize: '12px',
+                    cursor: midiEnabled ? 'pointer' : 'default',
+                    borderRadius: '4px',
+                    opacity: midiEnabled ? 1 : 0.5,
+                  }}
+                >
+                  Learn
+                </button>
+              </div>
+              <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{getMidiNoteLabel(track.midiNote)}</div>
+            </div>
+
+            <div>
+              <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Groove</label>
+              <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px' }}>
+                <select
+                  value={track.groove?.template ?? 'project'}
+                  onChange={e =>
+                    setTrackGroove(track.id, e.target.value === 'project' ? null : (e.target.value as GrooveTemplate))
+                  }
+                  style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+                >
+                  <option value="project">Project</option>
+                  {GROOVE_TEMPLATES.map(template => (
+                    <option key={template} value={template}>{GROOVE_TEMPLATE_LABELS[template]}</option>
+                  ))}
+                </select>
+                {track.groove && renderGrooveSettings(track.groove, changes => updateTrackGroove(track.id, changes))}
+                <button
+                  onClick={() => extractTrackGroove(track.id)}
+                  title="Use this track's timing and accents as the project's custom groove"
+                  style={{
+                    background: '#4a4a4a',
+                    color: '#e0e0e0',
+                    border: '1px solid #5a5a5a',
+                    padding: '4px 8px',
+                    fontSize: '12px',
+                    cursor: 'pointer',
+                    borderRadius: '4px',
+                  }}
+                >
+                  Extract
+                </button>
+              </div>
+            </div>
           </div>
 
           {/* LFO */}
@@ -1303,31 +3034,35 @@ export const Sequencer = () => {
                 <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '12px' }}>
                   <div>
                     <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Frequency</label>
-                    <input
-                      type="range"
-                      min={0}
-                      max={50}
-                      step={0.1}
-                      value={track.lfo.frequency}
-                      onChange={e => updateLFO(track.id, 'frequency', Number(e.target.value))}
-                      disabled={!track.lfoEnabled}
-                      style={{ width: '100%', opacity: track.lfoEnabled ? 1 : 0.5 }}
-                    />
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: 'lfo.frequency' })}>
+                      <input
+                        type="range"
+                        min={0}
+                        max={50}
+                        step={0.1}
+                        value={track.lfo.frequency}
+                        onChange={e => updateLFO(track.id, 'frequency', Number(e.target.value))}
+                        disabled={!track.lfoEnabled}
+                        style={{ width: '100%', opacity: track.lfoEnabled ? 1 : 0.5 }}
+                      />
+                    </MidiLearnable>
                     <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{track.lfo.frequency.toFixed(1)} Hz</div>
                   </div>
 
                   <div>
                     <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Depth</label>
-                    <input
-                      type="range"
-                      min={0}
-                      max={4}
-                      step={0.01}
-                      value={track.lfo.depth}
-                      onChange={e => updateLFO(track.id, 'depth', Number(e.target.value))}
-                      disabled={!track.lfoEnabled}
-                      style={{ width: '100%', opacity: track.lfoEnabled ? 1 : 0.5 }}
-                    />
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: 'lfo.depth' })}>
+                      <input
+                        type="range"
+                        min={0}
+                        max={4}
+                        step={0.01}
+                        value={track.lfo.depth}
+                        onChange={e => updateLFO(track.id, 'depth', Number(e.target.value))}
+                        disabled={!track.lfoEnabled}
+                        style={{ width: '100%', opacity: track.lfoEnabled ? 1 : 0.5 }}
+                      />
+                    </MidiLearnable>
                     <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{track.lfo.depth.toFixed(2)}</div>
                   </div>
                 </div>
@@ -1376,24 +3111,61 @@ export const Sequencer = () => {
 
                 <div>
                   <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Depth</label>
-                  <input
-                    type="range"
-                    min={0}
-                    max={2}
-                    step={0.01}
-                    value={track.pitchEnvelope.depth}
-                    onChange={e => updatePitchEnvelope(track.id, 'depth', Number(e.target.value))}
-                    disabled={!track.pitchEnabled}
-                    style={{ width: '100%', opacity: track.pitchEnabled ? 1 : 0.5 }}
-                  />
+                  <MidiLearnable {...midiLearnProps({ trackId: track.id, param: 'pitchEnvelope.depth' })}>
+                    <input
+                      type="range"
+                      min={0}
+                      max={2}
+                      step={0.01}
+                      value={track.pitchEnvelope.depth}
+                      onChange={e => updatePitchEnvelope(track.id, 'depth', Number(e.target.value))}
+                      disabled={!track.pitchEnabled}
+                      style={{ width: '100%', opacity: track.pitchEnabled ? 1 : 0.5 }}
+                    />
+                  </MidiLearnable>
                   <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{track.pitchEnvelope.depth.toFixed(2)}</div>
                 </div>
+
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '12px', marginTop: '8px' }}>
+                  <div>
+                    <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Attack</label>
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: 'pitchEnvelope.attack' })}>
+                      <input
+                        type="range"
+                        min={0}
+                        max={0.1}
+                        step={0.001}
+                        value={track.pitchEnvelope.attack}
+                        onChange={e => updatePitchEnvelope(track.id, 'attack', Number(e.target.value))}
+                        disabled={!track.pitchEnabled}
+                        style={{ width: '100%', opacity: track.pitchEnabled ? 1 : 0.5 }}
+                      />
+                    </MidiLearnable>
+                    <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{(track.pitchEnvelope.attack * 1000).toFixed(0)}ms</div>
+                  </div>
+                  <div>
+                    <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Decay</label>
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: 'pitchEnvelope.decay' })}>
+                      <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        value={track.pitchEnvelope.decay}
+                        onChange={e => updatePitchEnvelope(track.id, 'decay', Number(e.target.value))}
+                        disabled={!track.pitchEnabled}
+                        style={{ width: '100%', opacity: track.pitchEnabled ? 1 : 0.5 }}
+                      />
+                    </MidiLearnable>
+                    <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{track.pitchEnvelope.decay.toFixed(2)}s</div>
+                  </div>
+                </div>
               </>
             )}
           </div>
 
-          {/* Ducking - Only for tracks 2, 3, 4 */}
-          {track.id >= 1 && track.duckingEnabled && (
+          {/* Ducking - Only for tracks after CH1 */}
+          {trackIndex >= 1 && track.duckingEnabled && (
             <div style={{ marginTop: '12px', padding: '12px', background: '#3a3a3a', borderRadius: '4px' }}>
               <div style={{ fontSize: '14px', fontWeight: '500', marginBottom: '12px' }}>Ducking from CH1</div>
 
@@ -1401,37 +3173,41 @@ export const Sequencer = () => {
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '12px' }}>
                 <div>
                   <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Duck Amount</label>
-                  <input
-                    type="range"
-                    min={0}
-                    max={1}
-                    step={0.01}
-                    value={track.duckingAmount}
-                    onChange={e => updateDuckingAmount(track.id, Number(e.target.value))}
-                    style={{ width: '100%' }}
-                  />
+                  <MidiLearnable {...midiLearnProps({ trackId: track.id, param: 'duckingAmount' })}>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      value={track.duckingAmount}
+                      onChange={e => updateDuckingAmount(track.id, Number(e.target.value))}
+                      style={{ width: '100%' }}
+                    />
+                  </MidiLearnable>
                   <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{(track.duckingAmount * 100).toFixed(0)}%</div>
                 </div>
 
                 <div>
                   <label style={{ fontSize: '13px', display: 'block', marginBottom: '4px' }}>Release Time</label>
-                  <input
-                    type="range"
-                    min={0.01}
-                    max={1}
-                    step={0.01}
-                    value={track.duckingRelease}
-                    onChange={e => updateDuckingRelease(track.id, Number(e.target.value))}
-                    style={{ width: '100%' }}
-                  />
+                  <MidiLearnable {...midiLearnProps({ trackId: track.id, param: 'duckingRelease' })}>
+                    <input
+                      type="range"
+                      min={0.01}
+                      max={1}
+                      step={0.01}
+                      value={track.duckingRelease}
+                      onChange={e => updateDuckingRelease(track.id, Number(e.target.value))}
+                      style={{ width: '100%' }}
+                    />
+                  </MidiLearnable>
                   <div style={{ fontSize: '12px', color: '#999', marginTop: '2px' }}>{track.duckingRelease.toFixed(2)}s</div>
                 </div>
               </div>
             </div>
           )}
 
-          {/* Ducking Toggle - Only for tracks 2, 3, 4 when disabled */}
-          {track.id >= 1 && !track.duckingEnabled && (
+          {/* Ducking Toggle - Only for tracks after CH1 when disabled */}
+          {trackIndex >= 1 && !track.duckingEnabled && (
             <div style={{ marginTop: '12px', padding: '12px', background: '#3a3a3a', borderRadius: '4px' }}>
               <label style={{ fontSize: '13px', display: 'flex', alignItems: 'center', gap: '8px' }}>
                 <input
@@ -1446,7 +3222,7 @@ export const Sequencer = () => {
           )}
 
           {/* Ducking Toggle (when enabled) */}
-          {track.id >= 1 && track.duckingEnabled && (
+          {trackIndex >= 1 && track.duckingEnabled && (
             <div style={{ marginTop: '12px', padding: '8px 12px', background: '#454545', borderRadius: '4px' }}>
               <label style={{ fontSize: '13px', display: 'flex', alignItems: 'center', gap: '8px' }}>
                 <input
@@ -1486,7 +3262,7 @@ export const Sequencer = () => {
             <>
               {/* Algorithm Selection - Toggle buttons with diagrams */}
               <div style={{ display: 'flex', gap: '6px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '12px' }}>
-                {(['serial', 'parallel', 'hybrid1', 'hybrid2'] as const).map((algo) => (
+                {FM_ALGORITHMS.map((algo) => (
                   <button
                     key={algo}
                     onClick={() => updateAlgorithm(track.id, algo)}
@@ -1504,7 +3280,9 @@ export const Sequencer = () => {
                     }}
                   >
                     <FMAlgorithmDiagram
-                      algorithm={algo}
+                      matrix={getAlgorithmMatrix(algo, track.modulationMatrix)}
+                      width={130}
+                      height={70}
                       hoveredOperator={
                         hoveredOperator?.trackId === track.id && typeof hoveredOperator.operatorIndex === 'number'
                           ? (hoveredOperator.operatorIndex as 0 | 1 | 2 | 3)
@@ -1519,12 +3297,19 @@ export const Sequencer = () => {
                       }}
                     />
                     <span style={{ fontSize: '9px', color: track.algorithm === algo ? '#2a2a2a' : '#999', fontWeight: '500', textTransform: 'uppercase' }}>
-                      {algo === 'hybrid1' ? 'H1' : algo === 'hybrid2' ? 'H2' : algo.slice(0, 3)}
+                      {ALGORITHM_LABELS[algo]}
                     </span>
                   </button>
                 ))}
               </div>
 
+              {track.algorithm === 'custom' && (
+                <ModulationMatrixEditor
+                  matrix={track.modulationMatrix}
+                  onChange={matrix => updateModulationMatrix(track.id, matrix)}
+                />
+              )}
+
               {/* Operators - 5 column layout */}
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '12px' }}>
               {/* Unified ADSR Operator */}
@@ -1608,6 +3393,38 @@ export const Sequencer = () => {
                       OP{opIndex + 1}
                     </div>
 
+                  {/* Waveform */}
+                  <div style={{ marginBottom: '8px', textAlign: 'center' }}>
+                    <select
+                      value={op.waveform}
+                      onChange={e => updateOperatorWaveform(track.id, opIndex, e.target.value as OperatorWaveform)}
+                      title="Operator waveform"
+                      style={{ background: '#4a4a4a', color: '#e0e0e0', border: '1px solid #5a5a5a', padding: '4px 6px', fontSize: '12px', borderRadius: '4px' }}
+                    >
+                      {OPERATOR_WAVEFORMS.map(waveform => (
+                        <option key={waveform} value={waveform}>
+                          {WAVEFORM_LABELS[waveform]}
+                        </option>
+                      ))}
+                    </select>
+                    {op.waveform === 'custom' && (
+                      <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '4px', marginTop: '6px' }}>
+                        {op.harmonics.map((amplitude, harmonic) => (
+                          <RotaryKnob
+                            key={harmonic}
+                            value={amplitude}
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            onChange={(value) => updateHarmonic(track.id, opIndex, harmonic, value)}
+                            label={`H${harmonic + 1}`}
+                            size={28}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
                   {/* ADSR Graph */}
                   <div style={{ marginBottom: '12px', width: '100%' }}>
                     <ADSRGraph
@@ -1624,35 +3441,79 @@ export const Sequencer = () => {
                     />
                   </div>
 
+                  {/* Envelope Knobs (same ranges as the graph handles) */}
+                  <div style={{ display: 'flex', justifyContent: 'space-around', gap: '8px', marginBottom: '12px' }}>
+                    {(['attack', 'decay', 'sustain', 'release'] as const).map(param => (
+                      <MidiLearnable key={param} {...midiLearnProps({ trackId: track.id, param: getOperatorMidiParam(opIndex, param) })}>
+                        <RotaryKnob
+                          value={op[param]}
+                          min={0}
+                          max={param === 'attack' ? 0.1 : 1}
+                          step={param === 'attack' ? 0.001 : 0.01}
+                          onChange={(value) => updateOperator(track.id, opIndex, param, value)}
+                          label={param.charAt(0).toUpperCase()}
+                          size={36}
+                        />
+                      </MidiLearnable>
+                    ))}
+                  </div>
+
                   {/* Rotary Knobs */}
                   <div style={{ display: 'flex', justifyContent: 'space-around', gap: '8px' }}>
-                    <RotaryKnob
-                      value={op.ratio}
-                      min={0.1}
-                      max={16}
-                      step={0.01}
-                      onChange={(value) => updateOperator(track.id, opIndex, 'ratio', value)}
-                      label="Ratio"
-                      size={50}
-                    />
-                    <RotaryKnob
-                      value={op.level}
-                      min={0}
-                      max={1}
-                      step={0.01}
-                      onChange={(value) => updateOperator(track.id, opIndex, 'level', value)}
-                      label="Level"
-                      size={50}
-                    />
-                    <RotaryKnob
-                      value={op.feedbackAmount}
-                      min={0}
-                      max={1}
-                      step={0.01}
-                      onChange={(value) => updateOperator(track.id, opIndex, 'feedbackAmount', value)}
-                      label="FB"
-                      size={50}
-                    />
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: getOperatorMidiParam(opIndex, 'ratio') })}>
+                      <RotaryKnob
+                        value={op.ratio}
+                        min={0.1}
+                        max={16}
+                        step={0.01}
+                        onChange={(value) => updateOperator(track.id, opIndex, 'ratio', value)}
+                        label="Ratio"
+                        size={50}
+                      />
+                    </MidiLearnable>
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: getOperatorMidiParam(opIndex, 'level') })}>
+                      <RotaryKnob
+                        value={op.level}
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        onChange={(value) => updateOperator(track.id, opIndex, 'level', value)}
+                        label="Level"
+                        size={50}
+                      />
+                    </MidiLearnable>
+                    <MidiLearnable {...midiLearnProps({ trackId: track.id, param: getOperatorMidiParam(opIndex, 'feedbackAmount') })}>
+                      <RotaryKnob
+                        value={op.feedbackAmount}
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        onChange={(value) => updateOperator(track.id, opIndex, 'feedbackAmount', value)}
+                        label="FB"
+                        size={50}
+                      />
+                    </MidiLearnable>
+                    {/* Modulation index, dimmed while the algorithm doesn't use the operator as a modulator */}
+                    <MidiLearnable
+                      {...midiLearnProps({ trackId: track.id, param: getOperatorMidiParam(opIndex, 'modIndex') })}
+                      style={{
+                        opacity: getAlgorithmMatrix(track.algorithm, track.modulationMatrix).depths[opIndex].some(
+                          (depth, to) => to !== opIndex && depth > 0
+                        )
+                          ? 1
+                          : 0.4,
+                      }}
+                    >
+                      <RotaryKnob
+                        value={op.modIndex}
+                        min={0}
+                        max={MAX_MOD_INDEX}
+                        step={0.01}
+                        onChange={(value) => updateOperator(track.id, opIndex, 'modIndex', value)}
+                        label="Index"
+                        size={50}
+                      />
+                    </MidiLearnable>
                   </div>
                 </div>
                 );
@@ -1664,6 +3525,31 @@ export const Sequencer = () => {
         </div>
       ))}
 
+      {/* Add Track */}
+      {tracks.length > 0 && tracks.length < MAX_TRACKS && (
+        <button
+          onClick={addTrack}
+          style={{
+            width: '100%',
+            background: '#353535',
+            color: '#e0e0e0',
+            border: '1px dashed #5a5a5a',
+            padding: '12px',
+            fontSize: '14px',
+            fontWeight: '500',
+            cursor: 'pointer',
+            borderRadius: '4px',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '8px',
+            marginBottom: '16px',
+          }}
+        >
+          <FaPlus /> ADD TRACK ({tracks.length}/{MAX_TRACKS})
+        </button>
+      )}
+
       {/* Toast Notification */}
       {toast && (
         <div
@@ -0,0 +1,63 @@
+import { parseMidiMessage } from './midiMessages';
+import type { MidiMessage } from './midiMessages';
+
+/**
+ * Web MIDI input: listens to every connected input port (including ones plugged in later)
+ * and forwards parsed messages with their receive time on the performance clock.
+ */
+
+export type MidiMessageListener = (message: MidiMessage, timeStamp: number) => void;
+
+export class MidiInput {
+  private access: MIDIAccess | null = null;
+  private listener: MidiMessageListener;
+
+  constructor(listener: MidiMessageListener) {
+    this.listener = listener;
+  }
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function';
+  }
+
+  // Ask for MIDI access (the browser may prompt) and start listening
+  async connect(): Promise<void> {
+    this.disconnect();
+    const access = await navigator.requestMIDIAccess();
+    this.access = access;
+
+    access.inputs.forEach(input => this.attach(input));
+    access.onstatechange = event => {
+      const port = (event as MIDIConnectionEvent).port;
+      if (port?.type === 'input' && port.state === 'connected') {
+        this.attach(port as MIDIInput);
+      }
+    };
+  }
+
+  disconnect() {
+    if (!this.access) return;
+    this.access.inputs.forEach(input => {
+      input.onmidimessage = null;
+    });
+    this.access.onstatechange = null;
+    this.access = null;
+  }
+
+  // Names of the connected input ports
+  getInputNames(): string[] {
+    const names: string[] = [];
+    this.access?.inputs.forEach(input => names.push(input.name ?? input.id));
+    return names;
+  }
+
+  private attach(input: MIDIInput) {
+    input.onmidimessage = event => {
+      if (!event.data) return;
+      const message = parseMidiMessage(event.data);
+      if (message) {
+        this.listener(message, event.timeStamp);
+      }
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Web MIDI output: sends to every connected output port. Messages can be timestamped on the
+ * audio clock so they leave in sync with the sounds scheduled ahead by the sequencer.
+ */
+
+export class MidiOutput {
+  private access: MIDIAccess | null = null;
+  private audioContext: BaseAudioContext;
+
+  constructor(audioContext: BaseAudioContext) {
+    this.audioContext = audioContext;
+  }
+
+  async connect(): Promise<void> {
+    this.access = await navigator.requestMIDIAccess();
+  }
+
+  disconnect() {
+    this.access = null;
+  }
+
+  // Names of the connected output ports
+  getOutputNames(): string[] {
+    const names: string[] = [];
+    this.access?.outputs.forEach(output => names.push(output.name ?? output.id));
+    return names;
+  }
+
+  // Send a message now, or at `time` on the audio clock
+  send(data: number[], time?: number) {
+    if (!this.access) return;
+    const timeStamp = time === undefined ? undefined : this.toTimeStamp(time);
+    this.access.outputs.forEach(output => output.send(data, timeStamp));
+  }
+
+  // Audio clock time -> performance.now() time used by MIDIOutput.send()
+  private toTimeStamp(time: number): number {
+    return performance.now() + Math.max(0, time - this.audioContext.currentTime) * 1000;
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { MidiClockFollower, getStepClockTimes } from './midiClock';
+
+describe('MIDI clock', () => {
+  it('should send six straight pulses per step even with shuffle', () => {
+    expect(getStepClockTimes(0, 1, 0.12, 0)).toEqual([1, 1.02, 1.04, 1.06, 1.08, 1.1].map(t => expect.closeTo(t, 9)));
+
+    // With shuffle the odd step starts late, but its pulses stay on the grid
+    const swungTime = 0.12 * 1.25;
+    expect(getStepClockTimes(1, swungTime, 0.12, 0.5)[0]).toBeCloseTo(0.12);
+  });
+
+  it('should follow steps and tempo of an external clock', () => {
+    const follower = new MidiClockFollower();
+    const pulseMs = 60000 / (100 * 24); // 100 BPM
+
+    // Pulses before start only measure the tempo
+    const steps: (number | null)[] = [];
+    for (let i = 0; i < 24; i++) {
+      steps.push(follower.clock(i * pulseMs));
+    }
+    expect(steps.every(step => step === null)).toBe(true);
+    expect(follower.getBpm()).toBeCloseTo(100);
+
+    follower.setSongPosition(8);
+    follower.continue();
+    const started: (number | null)[] = [];
+    for (let i = 24; i < 37; i++) {
+      started.push(follower.clock(i * pulseMs));
+    }
+    expect(started.filter(step => step !== null)).toEqual([8, 9, 10]);
+
+    follower.start();
+    expect(follower.clock(37 * pulseMs)).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { getStepDuration } from '../audio/playback';
+
+/**
+ * MIDI clock: 24 pulses per quarter note, i.e. 6 per 16th-note step.
+ *
+ * As master the sequencer sends the pulses of every step it schedules. As slave it follows
+ * an external clock: every 6th pulse advances one step and the pulse rate sets the tempo.
+ */
+
+export const CLOCKS_PER_STEP = 6;
+
+const CLOCKS_PER_QUARTER = CLOCKS_PER_STEP * 4;
+
+export type MidiClockMode = 'internal' | 'master' | 'slave';
+
+// Audio clock times of the pulses of a scheduled step. Pulses stay on the straight grid, so
+// external gear gets a steady clock even when shuffle moves the odd steps.
+export function getStepClockTimes(step: number, time: number, baseDuration: number, shuffle: number): number[] {
+  const gridTime = step % 2 === 1 ? time - (getStepDuration(step - 1, baseDuration, shuffle) - baseDuration) : time;
+  return Array.from({ length: CLOCKS_PER_STEP }, (_, i) => gridTime + (baseDuration * i) / CLOCKS_PER_STEP);
+}
+
+// Follows an external MIDI clock (timestamps in milliseconds)
+export class MidiClockFollower {
+  private pulses: number = 0;
+  private running: boolean = false;
+  private lastPulseTime: number | null = null;
+  private intervals: number[] = [];
+
+  // Start from the top (MIDI start)
+  start() {
+    this.pulses = 0;
+    this.running = true;
+  }
+
+  // Resume from the current position (MIDI continue)
+  continue() {
+    this.running = true;
+  }
+
+  stop() {
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // Song position pointer, in 16th notes (= steps)
+  setSongPosition(position: number) {
+    this.pulses = position * CLOCKS_PER_STEP;
+  }
+
+  // Register a pulse; returns the step that starts on it while running, otherwise null
+  clock(timeStamp: number): number | null {
+    if (this.lastPulseTime !== null) {
+      this.intervals.push(timeStamp - this.lastPulseTime);
+      if (this.intervals.length > CLOCKS_PER_QUARTER) {
+        this.intervals.shift();
+      }
+    }
+    this.lastPulseTime = timeStamp;
+
+    if (!this.running) return null;
+    const step = this.pulses % CLOCKS_PER_STEP === 0 ? this.pulses / CLOCKS_PER_STEP : null;
+    this.pulses += 1;
+    return step;
+  }
+
+  // Tempo averaged over the last quarter note of pulses (null until enough pulses arrived)
+  getBpm(): number | null {
+    if (this.intervals.length < CLOCKS_PER_STEP) return null;
+    const average = this.intervals.reduce((sum, interval) => sum + interval, 0) / this.intervals.length;
+    return average > 0 ? 60000 / (average * CLOCKS_PER_QUARTER) : null;
+  }
+}
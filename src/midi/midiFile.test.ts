@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { exportMidiFile, getStepMidiNotes, parseMidiFile, quantizeMidiNotes } from './midiFile';
+import { createDefaultTracks } from '../audio/presets';
+import { MAX_STEPS } from '../audio/patterns';
+
+describe('MIDI files', () => {
+  it('should export the steps as notes with velocity and pitch', () => {
+    const [kick, snare] = createDefaultTracks();
+    kick.steps = new Array(MAX_STEPS).fill(false).map((_, i) => i === 0 || i === 4);
+    kick.velocityMap = new Array(MAX_STEPS).fill(1).map((v, i) => (i === 4 ? 0.5 : v));
+    snare.steps = new Array(MAX_STEPS).fill(false).map((_, i) => i === 4);
+    snare.pitchMap = new Array(MAX_STEPS).fill(1).map((p, i) => (i === 4 ? 2 : p));
+    snare.pitchEnabled = true;
+    kick.patternLength = snare.patternLength = 8;
+
+    const bytes = exportMidiFile({ tracks: [kick, snare], bpm: 120, stepCount: 8, shuffle: 0, loops: 2 });
+    const file = parseMidiFile(bytes);
+
+    expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('MThd');
+    expect(bytes[9]).toBe(1); // Type 1
+    expect(bytes[11]).toBe(3); // Tempo track + 2 tracks
+    expect(file.notes.map(({ tick, note, velocity }) => [tick, note, velocity])).toEqual([
+      [0, 36, 127],
+      [96, 36, 64],
+      [192, 36, 127],
+      [288, 36, 64],
+      [96, 50, 127], // Snare an octave up
+      [288, 50, 127],
+    ]);
+    expect(file.notes.every(note => note.channel === 9)).toBe(true);
+  });
+
+  it('should play one note per ratchet hit, sharing the locked note length', () => {
+    const [, , hat] = createDefaultTracks();
+    hat.stepTrigs = { 2: { ratchet: 4, ratchetRamp: 'up' } };
+    hat.parameterLocks = { 2: { noteLength: 2 } };
+
+    expect(getStepMidiNotes(hat, 2, 1)).toEqual(
+      [1, 2, 3, 4].map(hit => ({ note: hat.midiNote, offset: (hit - 1) / 4, length: 0.5, velocity: hit / 4 }))
+    );
+
+    hat.steps = new Array(MAX_STEPS).fill(false).map((_, i) => i === 2);
+    hat.patternLength = 16;
+    const file = parseMidiFile(exportMidiFile({ tracks: [hat], bpm: 120, stepCount: 16, shuffle: 0, loops: 1 }));
+    expect(file.notes.map(note => note.tick)).toEqual([48, 54, 60, 66]) // Step 2, a quarter step apart;
+  });
+
+  it('should quantize imported notes to steps', () => {
+    const file = {
+      ticksPerQuarter: 480,
+      notes: [
+        { tick: 10, channel: 9, note: 36, velocity: 127 },
+        { tick: 350, channel: 9, note: 38, velocity: 64 }, // Closer to step 3 than step 2
+        { tick: 1900, channel: 9, note: 42, velocity: 127 }, // Late in the last step: on the next downbeat
+        { tick: 1920, channel: 9, note: 36, velocity: 100 }, // Second bar
+      ],
+    };
+
+    expect(quantizeMidiNotes(file, 16)).toEqual([
+      { note: 36, step: 0, velocity: 1 },
+      { note: 38, step: 3, velocity: 64 / 127 },
+      { note: 42, step: 0, velocity: 1 },
+    ]);
+  });
+});
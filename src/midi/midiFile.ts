@@ -0,0 +1,279 @@
+import type { TrackData } from '../components/Sequencer';
+import { getStepDuration, getTrackStep, playStep } from '../audio/playback';
+import type { LoopCounters } from '../audio/playback';
+import { applyParameterLock } from '../audio/parameterLocks';
+import { getRatchetHits } from '../audio/ratchets';
+import type { Groove } from '../audio/groove';
+import { createRandom } from '../utils/random';
+import { GM_DRUM_CHANNEL, noteOffMessage, noteOnMessage } from './midiMessages';
+
+/**
+ * Standard MIDI File (SMF) export and import of drum patterns.
+ *
+ * Export writes a type 1 file: a tempo track, then one track per sequencer track on the GM drum channel.
+ * Notes are the hits the sequencer plays (trig conditions, probability, micro-timing, shuffle, groove and
+ * ratchets), with each track's MIDI note transposed by its pitch map and velocity from its velocity map.
+ * Import reads type 0 and 1 files and quantizes the note-ons to 16th-note steps.
+ *
+ * Layout: header chunk 'MThd' (format, track count, ticks per quarter note) + 'MTrk' chunks,
+ * each a list of delta time (variable-length quantity) + event, ending with an end-of-track meta event.
+ */
+
+export const TICKS_PER_QUARTER = 96;
+const TICKS_PER_STEP = TICKS_PER_QUARTER / 4;
+
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2f;
+const META_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+
+const DEFAULT_SEED = 1;
+
+export interface MidiExportOptions {
+  tracks: TrackData[];
+  bpm: number;
+  stepCount: number; // Master pattern length; one loop lasts this many steps
+  shuffle: number;
+  loops: number;
+  groove?: Groove | null; // Project groove
+  fill?: boolean;
+  seed?: number; // Seed for step probability, as for WAV renders
+}
+
+export interface MidiFileNote {
+  tick: number;
+  channel: number;
+  note: number;
+  velocity: number; // 1-127
+}
+
+export interface MidiFile {
+  ticksPerQuarter: number;
+  notes: MidiFileNote[]; // Note-ons of every track, in file order
+}
+
+export interface QuantizedNote {
+  note: number;
+  step: number;
+  velocity: number; // 0-1
+}
+
+interface TrackEvent {
+  tick: number;
+  data: number[];
+}
+
+// Variable-length quantity: 7 bits per byte, most significant first, high bit set on all but the last
+function encodeVarLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (let rest = value >>> 7; rest > 0; rest >>>= 7) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...encodeVarLength(data.length), ...data];
+}
+
+function encodeText(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function encodeChunk(id: string, data: number[]): number[] {
+  const length = data.length;
+  return [...encodeText(id), (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff, ...data];
+}
+
+// Order of events on the same tick: meta events, then note-offs (so a repeated note ends before it restarts), then the rest
+function getEventOrder(event: TrackEvent): number {
+  if (event.data[0] === 0xff) return 0;
+  return (event.data[0] & 0xf0) === 0x80 ? 1 : 2;
+}
+
+// Events sorted by tick, ending at `endTick`
+function encodeTrackChunk(events: TrackEvent[], endTick: number): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || getEventOrder(a) - getEventOrder(b));
+  const data: number[] = [];
+  let lastTick = 0;
+  for (const event of sorted) {
+    data.push(...encodeVarLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  data.push(...encodeVarLength(Math.max(0, endTick - lastTick)), ...metaEvent(META_END_OF_TRACK, []));
+  return encodeChunk('MTrk', data);
+}
+
+// MIDI note of a track's step: its MIDI note moved by the step's pitch multiplier, in semitones
+function getStepNote(track: TrackData, trackStep: number): number {
+  const pitch = track.pitchEnabled ? (track.pitchMap[trackStep] || 1) : 1;
+  return Math.max(0, Math.min(127, track.midiNote + Math.round(12 * Math.log2(pitch))));
+}
+
+export interface StepMidiNote {
+  note: number;
+  offset: number; // Steps after the step's (nudged and grooved) start
+  length: number; // In steps
+  velocity: number; // 0-1
+}
+
+// MIDI notes a step plays, for live note-out and file export alike: one per ratchet hit, with the hit's
+// velocity, sharing the step's note length (parameter locks included) among the hits
+export function getStepMidiNotes(track: TrackData, trackStep: number, velocity: number): StepMidiNote[] {
+  const note = getStepNote(track, trackStep);
+  const hits = getRatchetHits(track.stepTrigs[trackStep], 1, velocity);
+  const length = applyParameterLock(track, track.parameterLocks[trackStep]).noteLength / hits.length;
+  return hits.map(hit => ({ note, offset: hit.offset, length, velocity: hit.velocity }));
+}
+
+export function exportMidiFile({
+  tracks,
+  bpm,
+  stepCount,
+  shuffle,
+  loops,
+  groove = null,
+  fill = false,
+  seed = DEFAULT_SEED,
+}: MidiExportOptions): Uint8Array<ArrayBuffer> {
+  // Run the transport without sound (no synths, no ducking gains) and collect the hits; times are in steps
+  const silentTracks = tracks.map(track => ({ ...track, activeSynth: null, duckingGain: null }));
+  const events = new Map<number, TrackEvent[]>(tracks.map(track => [track.id, []]));
+  const random = createRandom(seed);
+  const loopCounters: LoopCounters = new Map();
+  const toTick = (time: number) => Math.max(0, Math.round(time * TICKS_PER_STEP));
+
+  let time = 0;
+  for (let step = 0; step < stepCount * loops; step++) {
+    playStep(silentTracks, step, 1, time, {
+      loopCounters,
+      fill,
+      random,
+      groove,
+      onTrigger: (track, noteTime, velocity) => {
+        for (const { note, offset, length, velocity: noteVelocity } of getStepMidiNotes(track, getTrackStep(track, step), velocity)) {
+          const start = toTick(noteTime + offset);
+          events.get(track.id)?.push(
+            { tick: start, data: noteOnMessage(GM_DRUM_CHANNEL, note, noteVelocity * 127) },
+            { tick: start + Math.max(1, Math.round(length * TICKS_PER_STEP)), data: noteOffMessage(GM_DRUM_CHANNEL, note) }
+          );
+        }
+      },
+    });
+    time += getStepDuration(step, 1, shuffle);
+  }
+
+  const endTick = stepCount * loops * TICKS_PER_STEP;
+  const microsecondsPerQuarter = Math.round(60_000_000 / bpm);
+  const tempoTrack = encodeTrackChunk(
+    [
+      { tick: 0, data: metaEvent(META_TIME_SIGNATURE, [4, 2, 24, 8]) }, // 4/4, 24 clocks per click, 8 32nds per quarter
+      {
+        tick: 0,
+        data: metaEvent(META_TEMPO, [
+          (microsecondsPerQuarter >>> 16) & 0xff,
+          (microsecondsPerQuarter >>> 8) & 0xff,
+          microsecondsPerQuarter & 0xff,
+        ]),
+      },
+    ],
+    endTick
+  );
+
+  const trackChunks = tracks.map(track =>
+    encodeTrackChunk(
+      [{ tick: 0, data: metaEvent(META_TRACK_NAME, encodeText(track.name)) }, ...(events.get(track.id) ?? [])],
+      endTick
+    )
+  );
+
+  const trackCount = tracks.length + 1;
+  const header = encodeChunk('MThd', [0, 1, trackCount >> 8, trackCount & 0xff, TICKS_PER_QUARTER >> 8, TICKS_PER_QUARTER & 0xff]);
+  return new Uint8Array([...header, ...tempoTrack, ...trackChunks.flat()]);
+}
+
+// Data bytes following a channel message status byte
+function getChannelDataLength(status: number): number {
+  const type = status & 0xf0;
+  return type === 0xc0 || type === 0xd0 ? 1 : 2;
+}
+
+// Read the note-ons of a type 0 or 1 file; throws on files that aren't MIDI or use SMPTE timing
+export function parseMidiFile(bytes: Uint8Array): MidiFile {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readId = (pos: number) => String.fromCharCode(...bytes.subarray(pos, pos + 4));
+
+  if (bytes.length < 14 || readId(0) !== 'MThd') {
+    throw new Error('Not a MIDI file');
+  }
+  const headerLength = view.getUint32(4);
+  const division = view.getUint16(12);
+  if (division & 0x8000) {
+    throw new Error('SMPTE time division is not supported');
+  }
+
+  const notes: MidiFileNote[] = [];
+  let pos = 8 + headerLength;
+  while (pos + 8 <= bytes.length) {
+    const id = readId(pos);
+    const length = view.getUint32(pos + 4);
+    const end = Math.min(bytes.length, pos + 8 + length);
+    pos += 8;
+
+    if (id === 'MTrk') {
+      let tick = 0;
+      let runningStatus = 0;
+      const readVarLength = () => {
+        let value = 0;
+        let byte = 0x80;
+        while (byte & 0x80 && pos < end) {
+          byte = bytes[pos++];
+          value = (value << 7) | (byte & 0x7f);
+        }
+        return value;
+      };
+
+      while (pos < end) {
+        tick += readVarLength();
+        let status = bytes[pos];
+        if (status & 0x80) {
+          pos++;
+        } else {
+          status = runningStatus; // Running status: data bytes follow directly
+        }
+
+        if (status === 0xff || status === 0xf0 || status === 0xf7) {
+          // Meta event (type byte + length + data) or SysEx (length + data): skipped
+          if (status === 0xff) pos++;
+          const dataLength = readVarLength();
+          pos += dataLength;
+        } else if (status & 0x80) {
+          runningStatus = status;
+          const data = bytes.subarray(pos, pos + getChannelDataLength(status));
+          pos += data.length;
+          if ((status & 0xf0) === 0x90 && data[1] > 0) {
+            notes.push({ tick, channel: status & 0x0f, note: data[0], velocity: data[1] });
+          }
+        } else {
+          break; // Data byte without a status to run on: corrupt track
+        }
+      }
+    }
+    pos = end;
+  }
+
+  return { ticksPerQuarter: division, notes };
+}
+
+// Snap note-ons to the nearest 16th-note step; notes past `stepCount` steps are dropped, and notes late in
+// the last step wrap around to the downbeat of the looping pattern
+export function quantizeMidiNotes(file: MidiFile, stepCount: number): QuantizedNote[] {
+  const ticksPerStep = file.ticksPerQuarter / 4;
+  return file.notes
+    .filter(({ tick }) => tick < stepCount * ticksPerStep)
+    .map(({ tick, note, velocity }) => ({
+      note,
+      step: Math.round(tick / ticksPerStep) % stepCount,
+      velocity: velocity / 127,
+    }));
+}
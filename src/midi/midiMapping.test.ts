@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { SoftTakeover, assignMapping, findMapping } from './midiMapping';
+import type { CcMapping } from './midiMapping';
+
+describe('MIDI mapping', () => {
+  it('should keep one controller per parameter and one parameter per controller', () => {
+    let mappings: CcMapping[] = [];
+    mappings = assignMapping(mappings, { channel: 0, controller: 74, target: { trackId: 1, param: 'lfo.depth' } });
+    mappings = assignMapping(mappings, { channel: 0, controller: 71, target: { trackId: null, param: 'bpm' } });
+
+    // Relearning the LFO depth on CC 71 drops the BPM mapping and the old CC 74 mapping
+    mappings = assignMapping(mappings, { channel: 0, controller: 71, target: { trackId: 1, param: 'lfo.depth' } });
+    expect(mappings).toHaveLength(1);
+    expect(findMapping(mappings, 0, 71)?.target).toEqual({ trackId: 1, param: 'lfo.depth' });
+    expect(findMapping(mappings, 0, 74)).toBeUndefined();
+    expect(findMapping(mappings, 1, 71)).toBeUndefined();
+  });
+
+  it('should pick up the parameter before moving it', () => {
+    const takeover = new SoftTakeover();
+
+    // Controller at the bottom, parameter at the middle: ignored until it gets there
+    expect(takeover.accept('p', 0, 0.5)).toBe(false);
+    expect(takeover.accept('p', 0.3, 0.5)).toBe(false);
+    expect(takeover.accept('p', 0.6, 0.5)).toBe(true);
+
+    // Keeps control, even while the parameter still shows an earlier value
+    expect(takeover.accept('p', 0.7, 0.6)).toBe(true);
+    expect(takeover.accept('p', 0.8, 0.6)).toBe(true);
+
+    // Parameter changed elsewhere: has to be picked up again
+    expect(takeover.accept('p', 0.9, 0.2)).toBe(false);
+    expect(takeover.accept('p', 0.1, 0.2)).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { MAX_MOD_INDEX } from '../audio/fmRouting';
+import { MAX_NUDGE, MAX_STEPS } from '../audio/patterns';
+
+/**
+ * MIDI learn: control change (CC) mappings to sound and transport parameters, and soft takeover
+ * so a controller whose position doesn't match the parameter doesn't make it jump.
+ */
+
+export type OperatorMidiParam =
+  | 'ratio'
+  | 'level'
+  | 'feedbackAmount'
+  | 'modIndex'
+  | 'attack'
+  | 'decay'
+  | 'sustain'
+  | 'release';
+
+// Per-step lanes (pitch, velocity and micro-timing sliders)
+export type StepMidiParam = 'pitch' | 'velocity' | 'nudge';
+
+export type MidiParam =
+  | 'bpm'
+  | 'shuffle'
+  | `operators.${0 | 1 | 2 | 3}.${OperatorMidiParam}`
+  | 'lfo.frequency'
+  | 'lfo.depth'
+  | 'pitchEnvelope.depth'
+  | 'duckingAmount'
+  | 'duckingRelease'
+  | 'pitchEnvelope.attack'
+  | 'pitchEnvelope.decay'
+  | 'noteLength'
+  | `steps.${number}.${StepMidiParam}`;
+
+// Parameter a controller is bound to; trackId is null for the global ones (BPM, shuffle)
+export interface MidiTarget {
+  trackId: number | null;
+  param: MidiParam;
+}
+
+export interface CcMapping {
+  channel: number; // 0-15
+  controller: number; // 0-127
+  target: MidiTarget;
+}
+
+const OPERATOR_PARAMS: OperatorMidiParam[] = ['ratio', 'level', 'feedbackAmount'];
+const OPERATOR_ENVELOPE_PARAMS: OperatorMidiParam[] = ['attack', 'decay', 'sustain', 'release'];
+const STEP_PARAMS: StepMidiParam[] = ['pitch', 'velocity', 'nudge'];
+
+// Every mappable parameter; the index is the parameter's code in share URLs, so only append
+export const MIDI_PARAMS: MidiParam[] = [
+  'bpm',
+  'shuffle',
+  ...[0, 1, 2, 3].flatMap(op => OPERATOR_PARAMS.map(param => getOperatorMidiParam(op, param))),
+  'lfo.frequency',
+  'lfo.depth',
+  'pitchEnvelope.depth',
+  'duckingAmount',
+  'duckingRelease',
+  ...[0, 1, 2, 3].map(op => getOperatorMidiParam(op, 'modIndex')),
+  ...[0, 1, 2, 3].flatMap(op => OPERATOR_ENVELOPE_PARAMS.map(param => getOperatorMidiParam(op, param))),
+  'pitchEnvelope.attack',
+  'pitchEnvelope.decay',
+  'noteLength',
+  ...STEP_PARAMS.flatMap(param => Array.from({ length: MAX_STEPS }, (_, step) => getStepMidiParam(step, param))),
+];
+
+export function getOperatorMidiParam(opIndex: number, param: OperatorMidiParam): MidiParam {
+  return `operators.${opIndex}.${param}` as MidiParam;
+}
+
+export function getStepMidiParam(step: number, param: StepMidiParam): MidiParam {
+  return `steps.${step}.${param}`;
+}
+
+// Range the full CC sweep (0-127) covers, matching the range of the parameter's control
+export function getMidiParamRange(param: MidiParam): { min: number; max: number } {
+  switch (param) {
+    case 'bpm':
+      return { min: 40, max: 300 };
+    case 'lfo.frequency':
+      return { min: 0, max: 50 };
+    case 'lfo.depth':
+      return { min: 0, max: 4 };
+    case 'pitchEnvelope.depth':
+      return { min: 0, max: 2 };
+    case 'duckingRelease':
+      return { min: 0.01, max: 1 };
+    case 'noteLength':
+      return { min: 0.1, max: 8 };
+  }
+  // Operator and pitch envelope attacks
+  if (param.endsWith('.attack')) {
+    return { min: 0, max: 0.1 };
+  }
+  if (param.endsWith('.pitch')) {
+    return { min: 0.5, max: 2 };
+  }
+  if (param.endsWith('.nudge')) {
+    return { min: -MAX_NUDGE, max: MAX_NUDGE };
+  }
+  if (param.endsWith('.ratio')) {
+    return { min: 0.1, max: 16 };
+  }
+  if (param.endsWith('.modIndex')) {
+    return { min: 0, max: MAX_MOD_INDEX };
+  }
+  return { min: 0, max: 1 };
+}
+
+export function getTargetKey(target: MidiTarget): string {
+  return `${target.trackId ?? 'global'}:${target.param}`;
+}
+
+export function findMapping(mappings: CcMapping[], channel: number, controller: number): CcMapping | undefined {
+  return mappings.find(mapping => mapping.channel === channel && mapping.controller === controller);
+}
+
+// Bind a controller to a target; a controller drives one parameter and a parameter follows one controller
+export function assignMapping(mappings: CcMapping[], mapping: CcMapping): CcMapping[] {
+  const key = getTargetKey(mapping.target);
+  return [
+    ...mappings.filter(
+      existing =>
+        getTargetKey(existing.target) !== key &&
+        !(existing.channel === mapping.channel && existing.controller === mapping.controller)
+    ),
+    mapping,
+  ];
+}
+
+// How close (0-1) the controller must come to the parameter's value to pick it up
+const PICKUP_THRESHOLD = 2 / 127;
+
+// Tolerance when recognising a value the controller set (BPM is rounded to whole beats)
+const APPLIED_TOLERANCE = 0.005;
+
+// Values the controller set recently; the parameter can still hold an older one until the UI catches up
+const APPLIED_HISTORY = 8;
+
+/**
+ * Soft takeover: a controller only takes over a parameter once it reaches the parameter's current value
+ * (comes close, or sweeps across it). It keeps control while the parameter holds a value it set, and has
+ * to pick the parameter up again after something else (the UI, a preset, randomize) changed it.
+ */
+export class SoftTakeover {
+  private positions = new Map<string, number>();
+  private applied = new Map<string, number[]>();
+
+  // Whether the controller at `position` may set the parameter `key`, currently at `current` (both 0-1)
+  accept(key: string, position: number, current: number): boolean {
+    const previous = this.positions.get(key);
+    this.positions.set(key, position);
+
+    const history = this.applied.get(key) ?? [];
+    const following = history.some(value => Math.abs(value - current) <= APPLIED_TOLERANCE);
+    const reached = Math.abs(position - current) <= PICKUP_THRESHOLD;
+    const crossed = previous !== undefined && (previous - current) * (position - current) < 0;
+    if (!following && !reached && !crossed) {
+      this.applied.delete(key);
+      return false;
+    }
+
+    this.applied.set(key, [...history, position].slice(-APPLIED_HISTORY));
+    return true;
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getDefaultMidiNote, getMidiNoteLabel, noteOnMessage, parseMidiMessage, songPositionMessage } from './midiMessages';
+
+describe('MIDI messages', () => {
+  it('should parse note and control change messages', () => {
+    expect(parseMidiMessage(new Uint8Array([0x99, 36, 100]))).toEqual({ type: 'noteon', channel: 9, note: 36, velocity: 100 });
+    expect(parseMidiMessage(new Uint8Array([0x89, 36, 64]))).toEqual({ type: 'noteoff', channel: 9, note: 36 });
+    expect(parseMidiMessage(new Uint8Array([0x90, 38, 0]))).toEqual({ type: 'noteoff', channel: 0, note: 38 });
+    expect(parseMidiMessage(new Uint8Array([0xb1, 74, 127]))).toEqual({ type: 'cc', channel: 1, controller: 74, value: 127 });
+    expect(parseMidiMessage(new Uint8Array([0xe0, 0, 64]))).toBeNull();
+  });
+
+  it('should round-trip clock and song position messages', () => {
+    expect(parseMidiMessage(new Uint8Array([0xf8]))).toEqual({ type: 'clock' });
+    expect(parseMidiMessage(new Uint8Array([0xfb]))).toEqual({ type: 'continue' });
+    expect(parseMidiMessage(new Uint8Array(songPositionMessage(300)))).toEqual({ type: 'songposition', position: 300 });
+    expect(noteOnMessage(9, 36, 0.4)).toEqual([0x99, 36, 1]);
+  });
+
+  it('should map tracks to the GM drum notes', () => {
+    expect([0, 1, 2, 3].map(getDefaultMidiNote)).toEqual([36, 38, 42, 45]);
+    expect(getMidiNoteLabel(36)).toBe('C1 Bass Drum 1');
+    expect(getMidiNoteLabel(60)).toBe('C3');
+  });
+});
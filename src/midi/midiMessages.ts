@@ -0,0 +1,101 @@
+/**
+ * MIDI message parsing/encoding and the General MIDI drum map.
+ */
+
+export type MidiMessage =
+  | { type: 'noteon'; channel: number; note: number; velocity: number }
+  | { type: 'noteoff'; channel: number; note: number }
+  | { type: 'cc'; channel: number; controller: number; value: number }
+  | { type: 'clock' | 'start' | 'continue' | 'stop' }
+  | { type: 'songposition'; position: number }; // Position in 16th notes
+
+// System real-time and common status bytes
+export const MIDI_CLOCK = 0xf8;
+export const MIDI_START = 0xfa;
+export const MIDI_CONTINUE = 0xfb;
+export const MIDI_STOP = 0xfc;
+export const MIDI_SONG_POSITION = 0xf2;
+
+// Channel used for drums by General MIDI (channel 10, 0-based)
+export const GM_DRUM_CHANNEL = 9;
+
+// Parse a raw MIDI message (channel 0-15); returns null for messages the sequencer doesn't use
+export function parseMidiMessage(data: Uint8Array): MidiMessage | null {
+  const status = data[0] ?? 0;
+  const channel = status & 0x0f;
+
+  switch (status) {
+    case MIDI_CLOCK:
+      return { type: 'clock' };
+    case MIDI_START:
+      return { type: 'start' };
+    case MIDI_CONTINUE:
+      return { type: 'continue' };
+    case MIDI_STOP:
+      return { type: 'stop' };
+    case MIDI_SONG_POSITION:
+      return { type: 'songposition', position: ((data[2] ?? 0) << 7) | (data[1] ?? 0) };
+  }
+
+  switch (status & 0xf0) {
+    case 0x90:
+      // Note on with velocity 0 is a note off (running status)
+      if ((data[2] ?? 0) === 0) {
+        return { type: 'noteoff', channel, note: data[1] ?? 0 };
+      }
+      return { type: 'noteon', channel, note: data[1] ?? 0, velocity: data[2] };
+    case 0x80:
+      return { type: 'noteoff', channel, note: data[1] ?? 0 };
+    case 0xb0:
+      return { type: 'cc', channel, controller: data[1] ?? 0, value: data[2] ?? 0 };
+  }
+  return null;
+}
+
+export function noteOnMessage(channel: number, note: number, velocity: number): number[] {
+  return [0x90 | (channel & 0x0f), note & 0x7f, Math.max(1, Math.min(127, Math.round(velocity)))];
+}
+
+export function noteOffMessage(channel: number, note: number): number[] {
+  return [0x80 | (channel & 0x0f), note & 0x7f, 0];
+}
+
+// Song position pointer, in 16th notes (14 bits)
+export function songPositionMessage(position: number): number[] {
+  const value = Math.max(0, Math.min(0x3fff, Math.round(position)));
+  return [MIDI_SONG_POSITION, value & 0x7f, value >> 7];
+}
+
+// General MIDI percussion notes, in the order tracks get them by default (Kick, Snare, HiHat, Tom, ...)
+export const GM_DRUM_MAP: { note: number; name: string }[] = [
+  { note: 36, name: 'Bass Drum 1' },
+  { note: 38, name: 'Acoustic Snare' },
+  { note: 42, name: 'Closed Hi-Hat' },
+  { note: 45, name: 'Low Tom' },
+  { note: 46, name: 'Open Hi-Hat' },
+  { note: 39, name: 'Hand Clap' },
+  { note: 49, name: 'Crash Cymbal 1' },
+  { note: 51, name: 'Ride Cymbal 1' },
+  { note: 37, name: 'Side Stick' },
+  { note: 41, name: 'Low Floor Tom' },
+  { note: 43, name: 'High Floor Tom' },
+  { note: 47, name: 'Low-Mid Tom' },
+  { note: 48, name: 'Hi-Mid Tom' },
+  { note: 50, name: 'High Tom' },
+  { note: 56, name: 'Cowbell' },
+  { note: 54, name: 'Tambourine' },
+];
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// GM drum note for the track at `index`
+export function getDefaultMidiNote(index: number): number {
+  return GM_DRUM_MAP[index % GM_DRUM_MAP.length].note;
+}
+
+// e.g. 36 -> 'C1 Bass Drum 1' (middle C = C3)
+export function getMidiNoteLabel(note: number): string {
+  const name = `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 2}`;
+  const drum = GM_DRUM_MAP.find(entry => entry.note === note);
+  return drum ? `${name} ${drum.name}` : name;
+}
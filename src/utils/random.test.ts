@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom } from './random';
+
+describe('createRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const sequence = Array.from({ length: 8 }, () => a());
+
+    expect(Array.from({ length: 8 }, () => b())).toEqual(sequence);
+    expect(createRandom(43)()).not.toBe(sequence[0]);
+  });
+
+  it('should produce values in [0, 1)', () => {
+    const random = createRandom(1);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Small seedable pseudo-random number generator (mulberry32).
+ * Used wherever playback involves chance, so that offline renders and tests are reproducible.
+ */
+
+export type RandomSource = () => number;
+
+// Returns a function producing numbers in [0, 1), the same sequence for the same seed
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
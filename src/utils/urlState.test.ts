@@ -1,13 +1,24 @@
 import { describe, it, expect } from 'vitest';
 import { serializeState, deserializeState } from './urlState';
 import type { TrackData } from '../components/Sequencer';
+import { MAX_STEPS, createEmptyPattern, createPatternBank } from '../audio/patterns';
+import { createGroove } from '../audio/groove';
+import { createModulationMatrix } from '../audio/fmRouting';
+import type { CcMapping } from '../midi/midiMapping';
 
 // Create a minimal mock track for testing
 function createMockTrack(id: number): TrackData {
   return {
     id,
     name: `Track ${id}`,
-    steps: new Array(64).fill(false).map((_, i) => i % 4 === 0),
+    steps: new Array(MAX_STEPS).fill(false).map((_, i) => i < 64 && i % 4 === 0),
+    patternLength: 64,
+    patterns: createPatternBank(),
+    parameterLocks: {},
+    stepTrigs: {},
+    nudgeMap: new Array(MAX_STEPS).fill(0),
+    groove: null,
+    midiNote: 36,
     frequency: 100 + id * 50,
     operators: [
       {
@@ -19,6 +30,9 @@ function createMockTrack(id: number): TrackData {
         sustain: 0.5,
         release: 0.2,
         feedbackAmount: 0.1,
+        modIndex: 2,
+        waveform: 'sine',
+        harmonics: [1],
       },
       {
         frequency: 440,
@@ -29,6 +43,9 @@ function createMockTrack(id: number): TrackData {
         sustain: 0.4,
         release: 0.25,
         feedbackAmount: 0.05,
+        modIndex: 2,
+        waveform: 'sine',
+        harmonics: [1],
       },
       {
         frequency: 440,
@@ -39,6 +56,9 @@ function createMockTrack(id: number): TrackData {
         sustain: 0.3,
         release: 0.22,
         feedbackAmount: 0.02,
+        modIndex: 2,
+        waveform: 'sine',
+        harmonics: [1],
       },
       {
         frequency: 440,
@@ -49,6 +69,9 @@ function createMockTrack(id: number): TrackData {
         sustain: 0.6,
         release: 0.3,
         feedbackAmount: 0.0,
+        modIndex: 2,
+        waveform: 'sine',
+        harmonics: [1],
       },
     ],
     lfo: {
@@ -56,19 +79,24 @@ function createMockTrack(id: number): TrackData {
       depth: 1.0 + id * 0.5,
     },
     algorithm: ['serial', 'parallel', 'hybrid1', 'hybrid2'][id % 4] as any,
+    modulationMatrix: createModulationMatrix(),
     pitchEnvelope: {
       attack: 0.01,
       decay: 0.5,
       depth: 0.5 + id * 0.2,
     },
-    pitchMap: new Array(64).fill(1.0).map((_, i) => 1 + (i % 8) * 0.1),
-    velocityMap: new Array(64).fill(1.0).map((_, i) => 0.5 + (i % 16) * 0.03),
+    pitchMap: new Array(MAX_STEPS).fill(1.0).map((_, i) => 1 + (i % 8) * 0.1),
+    velocityMap: new Array(MAX_STEPS).fill(1.0).map((_, i) => 0.5 + (i % 16) * 0.03),
     noteLength: 1.0 + id * 0.5,
+    chokeMode: id % 2 === 0 ? 'poly' : 'mono',
+    voiceCount: id * 2 + 1,
+    chokeGroup: id === 2 || id === 3 ? 1 : 0,
     activeSynth: null,
     lfoEnabled: id % 2 === 0,
     pitchEnabled: id % 2 === 1,
     pitchControlVisible: id === 0,
     velocityControlVisible: id === 1,
+    nudgeControlVisible: false,
     operatorsExpanded: id === 2,
     lfoExpanded: id === 0,
     pitchEnvExpanded: id === 1,
@@ -95,7 +123,7 @@ describe('URL State Serialization', () => {
     const encoded = serializeState(tracks, bpm, stepCount, shuffle);
     expect(encoded).toBeTypeOf('string');
     expect(encoded.length).toBeGreaterThan(0);
-    expect(encoded[0]).toBe('1'); // Version
+    expect(encoded[0]).toBe('3'); // Version
 
     const decoded = deserializeState(encoded);
     expect(decoded).not.toBeNull();
@@ -184,6 +212,7 @@ describe('URL State Serialization', () => {
         expect(restOp.sustain).toBeCloseTo(origOp.sustain, 2);
         expect(restOp.release).toBeCloseTo(origOp.release, 2);
         expect(restOp.feedbackAmount).toBeCloseTo(origOp.feedbackAmount, 2);
+        expect(restOp.modIndex).toBeCloseTo(origOp.modIndex, 3);
       }
     }
   });
@@ -241,6 +270,26 @@ describe('URL State Serialization', () => {
     }
   });
 
+  it('should preserve voice allocation settings', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1), createMockTrack(2), createMockTrack(3)];
+    const encoded = serializeState(tracks, 120, 16, 0);
+    const decoded = deserializeState(encoded);
+
+    for (let i = 0; i < 4; i++) {
+      expect(decoded!.tracks[i].chokeMode).toBe(tracks[i].chokeMode);
+      expect(decoded!.tracks[i].voiceCount).toBe(tracks[i].voiceCount);
+    }
+  });
+
+  it('should preserve choke groups', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1), createMockTrack(2), createMockTrack(3)];
+    tracks[1].chokeGroup = 7;
+    const encoded = serializeState(tracks, 120, 16, 0);
+    const decoded = deserializeState(encoded);
+
+    expect(decoded!.tracks.map(track => track.chokeGroup)).toEqual([0, 7, 1, 1]);
+  });
+
   it('should handle different BPM values', () => {
     const tracks = [createMockTrack(0), createMockTrack(1), createMockTrack(2), createMockTrack(3)];
 
@@ -288,6 +337,283 @@ describe('URL State Serialization', () => {
     expect(deserializeState('')).toBeNull();
     expect(deserializeState('invalid')).toBeNull();
     expect(deserializeState('2validbutversion2')).toBeNull();
+    expect(deserializeState('9validbutversion9')).toBeNull();
+  });
+
+  it('should preserve a variable number of tracks', () => {
+    for (const count of [1, 6, 16]) {
+      const tracks = Array.from({ length: count }, (_, i) => createMockTrack(i));
+      const decoded = deserializeState(serializeState(tracks, 120, 16, 0));
+
+      expect(decoded!.tracks).toHaveLength(count);
+      decoded!.tracks.forEach((track, i) => {
+        expect(track.steps).toEqual(tracks[i].steps);
+        expect(track.frequency).toBeCloseTo(tracks[i].frequency, 0);
+      });
+    }
+  });
+
+  it('should preserve track names including non-ASCII characters', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1), createMockTrack(2)];
+    tracks[0].name = '808 Clap';
+    tracks[1].name = 'キック 🥁';
+    tracks[2].name = '';
+
+    const decoded = deserializeState(serializeState(tracks, 120, 16, 0));
+
+    expect(decoded!.tracks.map(t => t.name)).toEqual(['808 Clap', 'キック 🥁', '']);
+  });
+
+  it('should skip unknown extension chunks', () => {
+    const tracks = [createMockTrack(0)];
+    tracks[0].name = 'Kick';
+    const encoded = serializeState(tracks, 120, 16, 0);
+
+    // Append an unknown chunk (tag 0xff, length 2)
+    const base64 = encoded.slice(1).replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), c => c.charCodeAt(0));
+    bytes.push(0xff, 0, 2, 1, 2);
+    const extended = encoded[0] + btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+
+    const decoded = deserializeState(extended);
+    expect(decoded!.tracks[0].name).toBe('Kick');
+  });
+
+  it('should preserve per-track pattern lengths', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1), createMockTrack(2)];
+    tracks[0].patternLength = 16;
+    tracks[1].patternLength = 12;
+    tracks[2].patternLength = 128;
+    tracks[2].steps = new Array(MAX_STEPS).fill(false).map((_, i) => i % 3 === 0);
+
+    const decoded = deserializeState(serializeState(tracks, 120, 16, 0));
+
+    expect(decoded!.tracks.map(t => t.patternLength)).toEqual([16, 12, 128]);
+    expect(decoded!.tracks[1].steps!.slice(0, 12)).toEqual(tracks[1].steps.slice(0, 12));
+    // Steps beyond the pattern length are not stored
+    expect(decoded!.tracks[1].steps!.slice(12).every(step => !step)).toBe(true);
+    expect(decoded!.tracks[2].steps).toEqual(tracks[2].steps);
+    expect(decoded!.tracks[2].steps).toHaveLength(MAX_STEPS);
+  });
+
+  it('should preserve the pattern bank', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1)];
+    const patternB = createEmptyPattern(12);
+    patternB.steps[3] = true;
+    patternB.velocityMap[3] = 0.4;
+    tracks[1].patterns[1] = patternB;
+
+    const encoded = serializeState(tracks, 120, 16, 0, { activePattern: 2 });
+    const decoded = deserializeState(encoded);
+
+    expect(decoded!.activePattern).toBe(2);
+    // The active pattern is taken from the live track fields
+    expect(decoded!.tracks[0].steps).toEqual(tracks[0].steps);
+    // Other non-empty slots are restored for every track
+    expect(decoded!.tracks[1].patterns![1].patternLength).toBe(12);
+    expect(decoded!.tracks[1].patterns![1].steps).toEqual(patternB.steps);
+    expect(decoded!.tracks[1].patterns![1].velocityMap[3]).toBeCloseTo(0.4, 1);
+    expect(decoded!.tracks[0].patterns![1].steps.some(Boolean)).toBe(false);
+    expect(decoded!.tracks[0].patterns).toHaveLength(16);
+  });
+
+  it('should preserve the song arrangement', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1), createMockTrack(2)];
+    const song = [
+      { pattern: 0, repeats: 4, bpm: null, mutedTrackIds: [] },
+      { pattern: 3, repeats: 2, bpm: 140, mutedTrackIds: [1, 2] },
+    ];
+
+    const decoded = deserializeState(serializeState(tracks, 120, 16, 0, { song }));
+
+    expect(decoded!.song).toEqual(song);
+    expect(deserializeState(serializeState(tracks, 120, 16, 0))!.song).toEqual([]);
+  });
+
+  it('should preserve parameter locks sparsely', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1)];
+    tracks[0].parameterLocks = {
+      4: { operators: { 2: { level: 0.25, ratio: 3.5 }, 3: { ratio: 12 } }, algorithm: 'parallel' },
+      12: { lfo: { depth: 2 }, pitchEnvelope: { decay: 0.5 }, noteLength: 2 },
+    };
+    tracks[1].patterns[3].steps[0] = true;
+    tracks[1].patterns[3].parameterLocks = { 0: { operators: { 0: { feedbackAmount: 0.75 } } } };
+
+    const withoutLocks = serializeState(
+      tracks.map(track => ({
+        ...track,
+        parameterLocks: {},
+        patterns: track.patterns.map(pattern => ({ ...pattern, parameterLocks: {} })),
+      })),
+      120,
+      16,
+      0
+    );
+    const encoded = serializeState(tracks, 120, 16, 0);
+    const decoded = deserializeState(encoded);
+
+    const locks = decoded!.tracks[0].parameterLocks!;
+    expect(Object.keys(locks)).toEqual(['4', '12']);
+    expect(locks[4].operators![2]!.level).toBeCloseTo(0.25, 3);
+    expect(locks[4].operators![2]!.ratio).toBeCloseTo(3.5, 3);
+    expect(locks[4].operators![3]!.ratio).toBeCloseTo(12, 3); // Up to the knob's maximum of 16
+    expect(locks[4].operators![0]).toBeUndefined();
+    expect(locks[4].algorithm).toBe('parallel');
+    expect(locks[12].lfo).toEqual({ depth: expect.closeTo(2, 3) });
+    expect(locks[12].pitchEnvelope!.decay).toBeCloseTo(0.5, 3);
+    expect(locks[12].noteLength).toBeCloseTo(2, 3);
+    expect(decoded!.tracks[1].parameterLocks).toEqual({});
+    expect(decoded!.tracks[1].patterns![3].parameterLocks[0].operators![0]!.feedbackAmount).toBeCloseTo(0.75, 3);
+
+    // Only locked fields take space
+    expect(encoded.length - withoutLocks.length).toBeLessThan(60);
+  });
+
+  it('should preserve step probability and trig conditions', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1)];
+    tracks[1].stepTrigs = {
+      0: { probability: 0.5 },
+      4: { condition: '3:4' },
+      8: { probability: 0.25, condition: 'not first' },
+      12: { probability: 1, condition: 'always' },
+    };
+
+    const decoded = deserializeState(serializeState(tracks, 120, 16, 0));
+
+    expect(decoded!.tracks[0].stepTrigs).toEqual({});
+    expect(decoded!.tracks[1].stepTrigs).toEqual({
+      0: { probability: 0.5, condition: 'always' },
+      4: { probability: 1, condition: '3:4' },
+      8: { probability: 0.25, condition: 'not first' },
+    });
+  });
+
+  it('should preserve ratchets alongside trig conditions', () => {
+    const tracks = [createMockTrack(0)];
+    tracks[0].stepTrigs = {
+      2: { ratchet: 4, ratchetRamp: 'up' },
+      6: { probability: 0.5, ratchet: 8, ratchetRamp: 'down' },
+      10: { ratchet: 1 },
+    };
+    tracks[0].patterns[3].stepTrigs = { 0: { ratchet: 3 } };
+
+    const decoded = deserializeState(serializeState(tracks, 120, 16, 0));
+
+    expect(decoded!.tracks[0].stepTrigs).toEqual({
+      2: { ratchet: 4, ratchetRamp: 'up' },
+      6: { probability: 0.5, condition: 'always', ratchet: 8, ratchetRamp: 'down' },
+    });
+    expect(decoded!.tracks[0].patterns![3].stepTrigs).toEqual({ 0: { ratchet: 3, ratchetRamp: 'none' } });
+  });
+
+  it('should preserve per-step micro-timing', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1)];
+    tracks[0].nudgeMap[4] = 0.25;
+    tracks[0].nudgeMap[12] = -0.5;
+    tracks[1].patterns[2].nudgeMap[0] = -0.1;
+
+    const decoded = deserializeState(serializeState(tracks, 120, 16, 0));
+
+    const nudgeMap = decoded!.tracks[0].nudgeMap!;
+    expect(nudgeMap).toHaveLength(MAX_STEPS);
+    expect(nudgeMap[4]).toBeCloseTo(0.25);
+    expect(nudgeMap[12]).toBeCloseTo(-0.5);
+    expect(nudgeMap.filter(nudge => nudge !== 0)).toHaveLength(2);
+    expect(decoded!.tracks[1].nudgeMap!.every(nudge => nudge === 0)).toBe(true);
+    expect(decoded!.tracks[1].patterns![2].nudgeMap[0]).toBeCloseTo(-0.1);
+  });
+
+  it('should preserve the project groove and per-track grooves', () => {
+    const tracks = [createMockTrack(0), createMockTrack(1), createMockTrack(2)];
+    tracks[1].groove = { ...createGroove('swing'), swing: 66, resolution: 8 };
+    const groove = { ...createGroove('custom'), timing: [0, 0.2, -0.1], velocity: [1, 0.5, 0.75] };
+
+    const decoded = deserializeState(serializeState(tracks, 120, 16, 0, { groove }));
+
+    expect(decoded!.groove.template).toBe('custom');
+    expect(decoded!.groove.timing).toEqual([0, 0.2, -0.1]);
+    expect(decoded!.groove.velocity).toEqual([1, 0.5, 0.75]);
+    expect(decoded!.tracks[0].groove).toBeNull();
+    expect(decoded!.tracks[1].groove).toMatchObject({ template: 'swing', swing: 66, resolution: 8 });
+    expect(decoded!.tracks[2].groove).toBeNull();
+
+    const straight = deserializeState(serializeState([createMockTrack(0)], 120, 16, 0));
+    expect(straight!.groove.template).toBe('none');
+  });
+
+  it('should preserve MIDI CC mappings by track position', () => {
+    const tracks = [createMockTrack(5), createMockTrack(9)];
+    const ccMappings: CcMapping[] = [
+      { channel: 0, controller: 71, target: { trackId: null, param: 'bpm' } },
+      { channel: 2, controller: 74, target: { trackId: 9, param: 'operators.3.feedbackAmount' } },
+      { channel: 0, controller: 1, target: { trackId: 42, param: 'lfo.depth' } }, // Deleted track
+      { channel: 0, controller: 20, target: { trackId: 5, param: 'steps.3.velocity' } },
+      { channel: 0, controller: 21, target: { trackId: 5, param: 'steps.100.nudge' } }, // Parameter index past 255
+    ];
+
+    const decoded = deserializeState(serializeState(tracks, 120, 16, 0, { ccMappings }));
+
+    expect(decoded!.ccMappings).toEqual([
+      { channel: 0, controller: 71, target: { trackId: null, param: 'bpm' } },
+      { channel: 2, controller: 74, target: { trackId: 1, param: 'operators.3.feedbackAmount' } },
+      { channel: 0, controller: 20, target: { trackId: 0, param: 'steps.3.velocity' } },
+      { channel: 0, controller: 21, target: { trackId: 0, param: 'steps.100.nudge' } },
+    ]);
+  });
+
+  it('should preserve extended algorithms and custom modulation matrices', () => {
+    const custom = createMockTrack(0);
+    custom.algorithm = 'custom';
+    custom.modulationMatrix = createModulationMatrix('fan');
+    custom.modulationMatrix.depths[3][0] = 0.4; // OP4 modulating OP1
+    custom.modulationMatrix.carriers[0] = true;
+    const fan = { ...createMockTrack(1), algorithm: 'fan' as const, parameterLocks: { 2: { algorithm: 'stack' as const } } };
+
+    const decoded = deserializeState(serializeState([custom, fan, createMockTrack(2)], 120, 16, 0));
+
+    expect(decoded!.tracks[0].algorithm).toBe('custom');
+    expect(decoded!.tracks[0].modulationMatrix).toEqual(custom.modulationMatrix);
+    expect(decoded!.tracks[1].algorithm).toBe('fan');
+    expect(decoded!.tracks[1].parameterLocks![2].algorithm).toBe('stack');
+    expect(decoded!.tracks[2].algorithm).toBe('hybrid1');
+    expect(decoded!.tracks[2].modulationMatrix).toEqual(createModulationMatrix());
+  });
+
+  it('should preserve operator waveforms and custom harmonics', () => {
+    const track = createMockTrack(0);
+    track.operators = track.operators.map((op, i) =>
+      i === 1 ? { ...op, waveform: 'custom', harmonics: [1, 0, 0.6, 0, 0.2, 0, 0, 0] } : { ...op, waveform: i === 2 ? 'square' : 'sine' }
+    );
+
+    const decoded = deserializeState(serializeState([track, createMockTrack(1)], 120, 16, 0));
+
+    expect(decoded!.tracks[0].operators!.map(op => op.waveform)).toEqual(['sine', 'custom', 'square', 'sine']);
+    expect(decoded!.tracks[0].operators![1].harmonics).toEqual([1, 0, 0.6, 0, 0.2, 0, 0, 0]);
+    expect(decoded!.tracks[1].operators!.every(op => op.waveform === 'sine')).toBe(true);
+  });
+
+  it('should decode legacy version 1 and 2 links', () => {
+    // Header: BPM 128, step count 32, no shuffle; four 116-byte tracks with 64 steps each
+    const trackBytes = (firstSteps: number) => {
+      const bytes = new Array(116).fill(0);
+      bytes[0] = firstSteps;
+      return bytes;
+    };
+    const toUrl = (version: string, bytes: number[]) =>
+      version + btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+    const body = [1, 2, 3, 5].flatMap(trackBytes);
+
+    const v1 = deserializeState(toUrl('1', [0, 128, 32, 0, ...body]));
+    const v2 = deserializeState(toUrl('2', [0, 128, 32, 0, 4, ...body]));
+
+    for (const decoded of [v1, v2]) {
+      expect(decoded!.bpm).toBe(128);
+      expect(decoded!.stepCount).toBe(32);
+      expect(decoded!.tracks).toHaveLength(4);
+      expect(decoded!.tracks[3].steps!.slice(0, 4)).toEqual([true, false, true, false]);
+      expect(decoded!.tracks[3].steps).toHaveLength(MAX_STEPS);
+      expect(decoded!.tracks[3].patternLength).toBe(32);
+    }
   });
 
   it('should be reasonably compact', () => {
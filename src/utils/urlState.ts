@@ -1,5 +1,41 @@
 import type { TrackData } from '../components/Sequencer';
-import type { FMAlgorithm } from '../audio/types';
+import type {
+  FMAlgorithm,
+  ModulationMatrix,
+  ChokeMode,
+  OperatorParams,
+  ParameterLock,
+  ParameterLocks,
+  RatchetRamp,
+  StepTrigs,
+  TrigCondition,
+} from '../audio/types';
+import { parseRatioCondition } from '../audio/trigConditions';
+import { getRatchetCount } from '../audio/ratchets';
+import { MAX_VOICES } from '../audio/FMSynth';
+import { MAX_MOD_INDEX, OPERATOR_COUNT, createModulationMatrix, getLegacyModIndex } from '../audio/fmRouting';
+import { HARMONIC_COUNT, OPERATOR_WAVEFORMS, createHarmonics } from '../audio/waveforms';
+import { CHOKE_GROUP_COUNT } from '../audio/playback';
+import { MAX_TRACKS, MAX_TRACK_NAME_LENGTH } from '../audio/presets';
+import {
+  MAX_NUDGE,
+  MAX_STEPS,
+  PATTERN_COUNT,
+  clampStepCount,
+  createPatternBank,
+  getLivePattern,
+  getPatternBank,
+  isPatternEmpty,
+  padToMaxSteps,
+} from '../audio/patterns';
+import type { TrackPattern } from '../audio/patterns';
+import { MAX_SECTION_REPEATS, MAX_SONG_SECTIONS } from '../audio/song';
+import { GROOVE_TEMPLATES, MAX_GROOVE_LENGTH, MAX_SWING, MIN_SWING, createGroove } from '../audio/groove';
+import type { Groove } from '../audio/groove';
+import { getDefaultMidiNote } from '../midi/midiMessages';
+import { MIDI_PARAMS } from '../midi/midiMapping';
+import type { CcMapping } from '../midi/midiMapping';
+import type { SongSection } from '../audio/song';
 
 /**
  * URL State Serialization Format
@@ -11,28 +47,86 @@ import type { FMAlgorithm } from '../audio/types';
  * - Version prefix for future compatibility
  *
  * Format Structure:
- * Version (1 char) + BPM (2 bytes) + StepCount (1 byte) + Shuffle (1 byte) + Tracks (4 tracks)
+ * Version (1 char) + BPM (2 bytes) + StepCount (1 byte) + Shuffle (1 byte) + TrackCount (1 byte) + Tracks + Chunks
  *
- * Each Track:
- * - Steps (64 bits = 8 bytes for boolean array)
- * - Velocity map (64 * 4 bits = 32 bytes, normalized 0-15)
- * - Pitch map (64 * 4 bits = 32 bytes, normalized 0-15, representing 0.25-4.0)
- * - Track params: frequency (2 bytes), noteLength (1 byte), flags (1 byte)
+ * Chunks are optional extensions appended after the tracks: Tag (1 byte) + Length (2 bytes) + Payload.
+ * Decoders skip tags they don't know, so new data can be added without a version bump.
+ * - CHUNK_NAMES: per track, name length (1 byte) + UTF-8 bytes
+ * - CHUNK_PATTERNS: active pattern index + the other non-empty pattern bank slots
+ * - CHUNK_SONG: song arrangement sections
+ * - CHUNK_LOCKS: parameter locks of every pattern, stored sparsely
+ * - CHUNK_TRIGS: step probability and trig conditions of every pattern, stored sparsely
+ * - CHUNK_RATCHETS: ratchet counts and velocity ramps of every pattern, stored sparsely
+ * - CHUNK_NUDGE: per-step micro-timing offsets of every pattern, stored sparsely
+ * - CHUNK_GROOVE: project groove + per track whether it has its own groove (and that groove)
+ * - CHUNK_MIDI_MAP: MIDI CC mappings
+ * - CHUNK_ROUTING: per track the full algorithm code and the custom modulation matrix
+ * - CHUNK_MOD_INDEX: per track the modulation index of each operator (older links derive it, see getLegacyModIndex)
+ * - CHUNK_WAVEFORMS: per operator the waveform, plus the harmonics of custom waveforms
+ *
+ * Version history:
+ * - '1': exactly 4 tracks, no TrackCount byte (still decoded for old share links)
+ * - '2': variable number of tracks (1 - MAX_TRACKS), 64 steps per track
+ * - '3': per-track pattern length (1 - MAX_STEPS), only the steps inside the pattern are stored
+ *
+ * Each Track (N = pattern length):
+ * - Pattern length (1 byte, version 3+)
+ * - Steps (N bits, ceil(N / 8) bytes; 64 steps in versions 1-2)
+ * - Velocity map (N * 4 bits, normalized 0-15)
+ * - Pitch map (N * 4 bits, normalized 0-15, representing 0.25-4.0)
+ * - Track params: frequency (2 bytes), noteLength (1 byte), flags (2 bytes: UI/enable flags, voice allocation, choke group)
  * - LFO: freq (1 byte), depth (1 byte)
  * - Pitch envelope: depth (1 byte)
- * - Algorithm (2 bits), operators (4 operators * 8 bytes = 32 bytes)
+ * - Algorithm (2 bits, algorithms added later are in CHUNK_ROUTING), operators (4 operators * 8 bytes = 32 bytes)
  * - Ducking params (2 bytes)
  *
- * Approximate size per track: 8 + 32 + 32 + 6 + 2 + 1 + 32 + 2 = 115 bytes
- * Total for 4 tracks: ~460 bytes + overhead = ~614 base64 chars (well under 2000 char URL limit)
+ * Size per 16-step track: 1 + 2 + 8 + 8 + 2 + 1 + 2 + 2 + 3 + 2 + 32 = 63 bytes
+ * Total for 4 tracks: ~260 bytes + overhead = ~360 base64 chars (well under 2000 char URL limit)
  */
 
-const VERSION = '1';
+const VERSION = '3';
+const LEGACY_VERSION_1 = '1';
+const LEGACY_VERSION_2 = '2';
+const LEGACY_TRACK_COUNT = 4;
+const LEGACY_STEP_COUNT = 64; // Versions 1-2 always store 64 steps per track
+const TRACK_PARAMS_SIZE = 2 + 1 + 1 + 1 + 2 + 3 + 2 + 32; // 44 bytes after the step data
+
+// Bytes used by the step data of a pattern storing `steps` steps (excluding the length byte)
+function patternSize(steps: number): number {
+  return Math.ceil(steps / 8) + Math.ceil(steps / 2) * 2;
+}
+
+// Bytes used by a track storing `steps` steps (excluding the version 3 length byte)
+function trackSize(steps: number): number {
+  return patternSize(steps) + TRACK_PARAMS_SIZE;
+}
+
+// Extension chunk tags
+const CHUNK_NAMES = 1;
+const CHUNK_PATTERNS = 2;
+const CHUNK_SONG = 3;
+const CHUNK_LOCKS = 4;
+const CHUNK_TRIGS = 5;
+const CHUNK_RATCHETS = 6;
+const CHUNK_NUDGE = 7;
+const CHUNK_GROOVE = 8;
+const CHUNK_MIDI_MAP = 9;
+const CHUNK_ROUTING = 10;
+const CHUNK_MOD_INDEX = 11;
+const CHUNK_WAVEFORMS = 12;
+
+// Project data beyond the tracks and global timing
+export interface ProjectOptions {
+  activePattern?: number;
+  song?: SongSection[];
+  groove?: Groove;
+  ccMappings?: CcMapping[];
+}
 
-// Helper to encode steps (64 booleans) into 8 bytes
+// Helper to encode steps (booleans) into bits
 function encodeSteps(steps: boolean[]): Uint8Array {
-  const bytes = new Uint8Array(8);
-  for (let i = 0; i < 64; i++) {
+  const bytes = new Uint8Array(Math.ceil(steps.length / 8));
+  for (let i = 0; i < steps.length; i++) {
     if (steps[i]) {
       bytes[Math.floor(i / 8)] |= 1 << (i % 8);
     }
@@ -40,9 +134,9 @@ function encodeSteps(steps: boolean[]): Uint8Array {
   return bytes;
 }
 
-function decodeSteps(bytes: Uint8Array, offset: number): boolean[] {
-  const steps = new Array(64).fill(false);
-  for (let i = 0; i < 64; i++) {
+function decodeSteps(bytes: Uint8Array, offset: number, length: number): boolean[] {
+  const steps = new Array(length).fill(false);
+  for (let i = 0; i < length; i++) {
     steps[i] = !!(bytes[offset + Math.floor(i / 8)] & (1 << (i % 8)));
   }
   return steps;
@@ -114,8 +208,20 @@ function decodeFloatRange(byte: number, min: number, max: number): number {
   return (byte / 255) * (max - min) + min;
 }
 
-// Encode algorithm (2 bits)
-const ALGORITHMS: FMAlgorithm[] = ['serial', 'parallel', 'hybrid1', 'hybrid2'];
+// Algorithm codes (index); append only. The first LEGACY_ALGORITHM_COUNT fit the track's 2-bit field.
+const ALGORITHMS: FMAlgorithm[] = [
+  'serial',
+  'parallel',
+  'hybrid1',
+  'hybrid2',
+  'merge',
+  'branch',
+  'stack',
+  'fan',
+  'pair',
+  'custom',
+];
+const LEGACY_ALGORITHM_COUNT = 4;
 
 function encodeAlgorithm(algo: FMAlgorithm): number {
   return ALGORITHMS.indexOf(algo);
@@ -125,18 +231,626 @@ function decodeAlgorithm(value: number): FMAlgorithm {
   return ALGORITHMS[value] || 'serial';
 }
 
-// Encode single track
-function encodeTrack(track: TrackData): Uint8Array {
+function isLegacyAlgorithm(algo: FMAlgorithm): boolean {
+  return encodeAlgorithm(algo) < LEGACY_ALGORITHM_COUNT;
+}
+
+// Encode an extension chunk (tag + uint16 length + payload)
+function encodeChunk(tag: number, payload: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(3 + payload.length);
+  chunk[0] = tag;
+  chunk.set(encodeUint16(payload.length), 1);
+  chunk.set(payload, 3);
+  return chunk;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, arr) => sum + arr.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Encode track names as length-prefixed UTF-8
+function encodeNames(tracks: TrackData[]): Uint8Array {
+  const encoder = new TextEncoder();
+  return concatBytes(tracks.map(track => {
+    const name = encoder.encode(Array.from(track.name).slice(0, MAX_TRACK_NAME_LENGTH).join(''));
+    return new Uint8Array([name.length, ...name]);
+  }));
+}
+
+function decodeNames(bytes: Uint8Array, trackCount: number): string[] {
+  const decoder = new TextDecoder();
+  const names: string[] = [];
+  let pos = 0;
+  for (let i = 0; i < trackCount && pos < bytes.length; i++) {
+    const length = bytes[pos];
+    pos += 1;
+    names.push(decoder.decode(bytes.subarray(pos, pos + length)));
+    pos += length;
+  }
+  return names;
+}
+
+// Encode a pattern: length (1 byte) + steps (1 bit per step) + velocity map + pitch map (4 bits per step)
+function encodePattern(pattern: TrackPattern): Uint8Array {
+  const patternLength = clampStepCount(pattern.patternLength);
+  return concatBytes([
+    new Uint8Array([patternLength]),
+    encodeSteps(pattern.steps.slice(0, patternLength)),
+    encodeNibbleArray(pattern.velocityMap.slice(0, patternLength)),
+    encodePitchMap(pattern.pitchMap.slice(0, patternLength)),
+  ]);
+}
+
+// Decode the step data of a pattern storing `stepTotal` steps (the length byte is read by the caller)
+function decodePattern(bytes: Uint8Array, offset: number, stepTotal: number, patternLength: number): TrackPattern {
+  let pos = offset;
+
+  const steps = padToMaxSteps(decodeSteps(bytes, pos, stepTotal), false);
+  pos += Math.ceil(stepTotal / 8);
+
+  const velocityMap = padToMaxSteps(decodeNibbleArray(bytes, pos, stepTotal), 1);
+  pos += Math.ceil(stepTotal / 2);
+
+  const pitchMap = padToMaxSteps(decodePitchMap(bytes, pos, stepTotal), 1);
+
+  return {
+    steps,
+    velocityMap,
+    pitchMap,
+    nudgeMap: new Array(MAX_STEPS).fill(0),
+    patternLength,
+    parameterLocks: {},
+    stepTrigs: {},
+  };
+}
+
+// Encode the bank slots other than the active one (the active pattern is stored with the tracks).
+// Payload: active index (1 byte) + per stored slot: slot index (1 byte) + one pattern per track.
+// Slots without any steps on any track are left out.
+function encodePatternBank(tracks: TrackData[], activePattern: number): Uint8Array {
+  const banks = tracks.map(track => getPatternBank(track, activePattern));
+  const parts: Uint8Array[] = [new Uint8Array([activePattern])];
+  for (let slot = 0; slot < PATTERN_COUNT; slot++) {
+    if (slot === activePattern || banks.every(bank => isPatternEmpty(bank[slot]))) continue;
+    parts.push(new Uint8Array([slot]));
+    banks.forEach(bank => parts.push(encodePattern(bank[slot])));
+  }
+  return concatBytes(parts);
+}
+
+function decodePatternBank(bytes: Uint8Array, tracks: Partial<TrackData>[]): number {
+  const activePattern = Math.min(bytes[0] ?? 0, PATTERN_COUNT - 1);
+  let pos = 1;
+  while (pos < bytes.length) {
+    const slot = bytes[pos];
+    pos += 1;
+    for (const track of tracks) {
+      const stepTotal = clampStepCount(bytes[pos]);
+      pos += 1;
+      if (slot < PATTERN_COUNT && track.patterns) {
+        track.patterns[slot] = decodePattern(bytes, pos, stepTotal, stepTotal);
+      }
+      pos += patternSize(stepTotal);
+    }
+  }
+  return activePattern;
+}
+
+// Encode song sections: count (1 byte) + per section: pattern (1 byte), repeats (1 byte),
+// BPM (2 bytes, 0 = project tempo), muted tracks (2 bytes, bit per track index)
+function encodeSong(song: SongSection[], tracks: TrackData[]): Uint8Array {
+  const sections = song.slice(0, MAX_SONG_SECTIONS);
+  const parts: Uint8Array[] = [new Uint8Array([sections.length])];
+  for (const section of sections) {
+    const muteMask = tracks.reduce(
+      (mask, track, index) => (section.mutedTrackIds.includes(track.id) ? mask | (1 << index) : mask),
+      0
+    );
+    parts.push(new Uint8Array([section.pattern, section.repeats]));
+    parts.push(encodeUint16(Math.round(section.bpm ?? 0)));
+    parts.push(encodeUint16(muteMask));
+  }
+  return concatBytes(parts);
+}
+
+// Decoded tracks use their index as id, so muted track ids are indices
+function decodeSong(bytes: Uint8Array): SongSection[] {
+  const song: SongSection[] = [];
+  const count = bytes[0] ?? 0;
+  for (let i = 0, pos = 1; i < count && pos + 6 <= bytes.length; i++, pos += 6) {
+    const bpm = decodeUint16(bytes, pos + 2);
+    const muteMask = decodeUint16(bytes, pos + 4);
+    song.push({
+      pattern: Math.min(bytes[pos], PATTERN_COUNT - 1),
+      repeats: Math.max(1, Math.min(MAX_SECTION_REPEATS, bytes[pos + 1])),
+      bpm: bpm || null,
+      mutedTrackIds: Array.from({ length: 16 }, (_, index) => index).filter(index => muteMask & (1 << index)),
+    });
+  }
+  return song;
+}
+
+// Encode a groove: template (1 byte), swing (1 byte, %), resolution (1 byte), humanize (1 byte, 0-100),
+// custom length (1 byte) + per step: timing (1 signed byte, percent of a step), velocity (1 byte, 0-100)
+function encodeGroove(groove: Groove): Uint8Array {
+  const length = Math.min(MAX_GROOVE_LENGTH, groove.timing.length);
+  const bytes = new Uint8Array(5 + length * 2);
+  bytes[0] = Math.max(0, GROOVE_TEMPLATES.indexOf(groove.template));
+  bytes[1] = Math.round(Math.max(MIN_SWING, Math.min(MAX_SWING, groove.swing)));
+  bytes[2] = groove.resolution;
+  bytes[3] = Math.round(Math.max(0, Math.min(1, groove.humanize)) * 100);
+  bytes[4] = length;
+  for (let i = 0; i < length; i++) {
+    bytes[5 + i * 2] = Math.round(Math.max(-MAX_NUDGE, Math.min(MAX_NUDGE, groove.timing[i])) * 100) & 0xff;
+    bytes[6 + i * 2] = Math.round(Math.max(0, Math.min(1, groove.velocity[i] ?? 1)) * 100);
+  }
+  return bytes;
+}
+
+function decodeGroove(bytes: Uint8Array, offset: number): [Groove, number] {
+  const length = Math.min(MAX_GROOVE_LENGTH, bytes[offset + 4] ?? 0);
+  const groove: Groove = {
+    ...createGroove(GROOVE_TEMPLATES[bytes[offset]] ?? 'none'),
+    swing: Math.max(MIN_SWING, Math.min(MAX_SWING, bytes[offset + 1] ?? MIN_SWING)),
+    resolution: bytes[offset + 2] === 8 ? 8 : 16,
+    humanize: Math.min(100, bytes[offset + 3] ?? 0) / 100,
+  };
+  for (let i = 0; i < length; i++) {
+    const timing = bytes[offset + 5 + i * 2] ?? 0;
+    groove.timing.push((timing > 127 ? timing - 256 : timing) / 100);
+    groove.velocity.push(Math.min(100, bytes[offset + 6 + i * 2] ?? 100) / 100);
+  }
+  return [groove, offset + 5 + length * 2];
+}
+
+// Project groove followed by one flag byte per track (1 = own groove, followed by it)
+function encodeGrooves(groove: Groove, tracks: TrackData[]): Uint8Array {
+  const parts = [encodeGroove(groove)];
+  for (const track of tracks) {
+    parts.push(new Uint8Array([track.groove ? 1 : 0]));
+    if (track.groove) {
+      parts.push(encodeGroove(track.groove));
+    }
+  }
+  return concatBytes(parts);
+}
+
+function decodeGrooves(bytes: Uint8Array, tracks: Partial<TrackData>[]): Groove {
+  const [groove, end] = decodeGroove(bytes, 0);
+  let pos = end;
+  for (const track of tracks) {
+    if (pos >= bytes.length) break;
+    const hasGroove = bytes[pos] === 1;
+    pos += 1;
+    if (hasGroove) {
+      [track.groove, pos] = decodeGroove(bytes, pos);
+    }
+  }
+  return groove;
+}
+
+// Encode CC mappings: count (1 byte) + per mapping: channel (1 byte), controller (1 byte),
+// track index (1 byte, 0xff = global), parameter (1 byte, index in MIDI_PARAMS).
+// Parameters past index 255 follow in a second list read the same way, with a 2-byte parameter
+// (older decoders stop after the first list)
+function encodeCcMappings(mappings: CcMapping[], tracks: TrackData[]): Uint8Array {
   const parts: Uint8Array[] = [];
+  const extendedParts: Uint8Array[] = [];
+  for (const { channel, controller, target } of mappings) {
+    const trackIndex = target.trackId === null ? 0xff : tracks.findIndex(track => track.id === target.trackId);
+    const param = MIDI_PARAMS.indexOf(target.param);
+    if (trackIndex < 0 || param < 0) continue;
+    if (param <= 0xff) {
+      parts.push(new Uint8Array([channel, controller, trackIndex, param]));
+    } else {
+      extendedParts.push(concatBytes([new Uint8Array([channel, controller, trackIndex]), encodeUint16(param)]));
+    }
+  }
+  return concatBytes([
+    new Uint8Array([Math.min(255, parts.length)]),
+    ...parts.slice(0, 255),
+    new Uint8Array([Math.min(255, extendedParts.length)]),
+    ...extendedParts.slice(0, 255),
+  ]);
+}
 
-  // Steps (8 bytes)
-  parts.push(encodeSteps(track.steps));
+// Decoded tracks use their index as id
+function decodeCcMappings(bytes: Uint8Array, trackCount: number): CcMapping[] {
+  const mappings: CcMapping[] = [];
+  const readList = (start: number, paramSize: number): number => {
+    const count = bytes[start] ?? 0;
+    const size = 3 + paramSize;
+    let pos = start + 1;
+    for (let i = 0; i < count && pos + size <= bytes.length; i++, pos += size) {
+      const param = MIDI_PARAMS[paramSize === 1 ? bytes[pos + 3] : decodeUint16(bytes, pos + 3)];
+      const trackIndex = bytes[pos + 2];
+      if (!param || (trackIndex !== 0xff && trackIndex >= trackCount)) continue;
+      mappings.push({
+        channel: bytes[pos] & 0x0f,
+        controller: bytes[pos + 1] & 0x7f,
+        target: { trackId: trackIndex === 0xff ? null : trackIndex, param },
+      });
+    }
+    return pos;
+  };
+  readList(readList(0, 1), 2);
+  return mappings;
+}
 
-  // Velocity map (32 bytes)
-  parts.push(encodeNibbleArray(track.velocityMap));
+// Bytes per track in CHUNK_ROUTING: algorithm code, carrier bits and the depths off the matrix diagonal
+const ROUTING_SIZE = 2 + OPERATOR_COUNT * (OPERATOR_COUNT - 1);
 
-  // Pitch map (32 bytes)
-  parts.push(encodePitchMap(track.pitchMap));
+// Encode a track's routing: algorithm code (1 byte), carriers (1 byte, bit per operator),
+// depths[from][to] for from != to, row by row (1 byte each, 0-1)
+function encodeRouting(track: TrackData): Uint8Array {
+  const { depths, carriers } = track.modulationMatrix;
+  const bytes = new Uint8Array(ROUTING_SIZE);
+  bytes[0] = encodeAlgorithm(track.algorithm);
+  bytes[1] = carriers.reduce((bits, isCarrier, i) => (isCarrier ? bits | (1 << i) : bits), 0);
+  let pos = 2;
+  depths.forEach((row, from) => {
+    row.forEach((depth, to) => {
+      if (from !== to) bytes[pos++] = encodeFloat01(depth);
+    });
+  });
+  return bytes;
+}
+
+function decodeRouting(bytes: Uint8Array, tracks: Partial<TrackData>[]) {
+  tracks.forEach((track, i) => {
+    let pos = i * ROUTING_SIZE;
+    if (pos + ROUTING_SIZE > bytes.length) return;
+
+    track.algorithm = decodeAlgorithm(bytes[pos]);
+    const carrierBits = bytes[pos + 1];
+    const matrix: ModulationMatrix = createModulationMatrix();
+    matrix.carriers = matrix.carriers.map((_, op) => !!(carrierBits & (1 << op)));
+    pos += 2;
+    matrix.depths = matrix.depths.map((row, from) => row.map((_, to) => (from === to ? 0 : decodeFloat01(bytes[pos++]))));
+    track.modulationMatrix = matrix;
+  });
+}
+
+// Encode the operators' modulation indices (2 bytes each, 0 - MAX_MOD_INDEX)
+function encodeModIndices(track: TrackData): Uint8Array {
+  return concatBytes(
+    track.operators.map(op => encodeUint16(Math.round((Math.max(0, Math.min(MAX_MOD_INDEX, op.modIndex)) / MAX_MOD_INDEX) * 65535)))
+  );
+}
+
+function decodeModIndices(bytes: Uint8Array, tracks: Partial<TrackData>[]) {
+  tracks.forEach((track, i) => {
+    const pos = i * OPERATOR_COUNT * 2;
+    if (!track.operators || pos + OPERATOR_COUNT * 2 > bytes.length) return;
+    track.operators = track.operators.map((op, opIndex) => ({
+      ...op,
+      modIndex: (decodeUint16(bytes, pos + opIndex * 2) / 65535) * MAX_MOD_INDEX,
+    }));
+  });
+}
+
+// Encode the operators' waveforms: per operator the waveform code (1 byte, index in OPERATOR_WAVEFORMS),
+// followed for custom waveforms by HARMONIC_COUNT harmonic amplitudes (1 byte each, 0-1)
+function encodeWaveforms(track: TrackData): Uint8Array {
+  return concatBytes(
+    track.operators.map(op => {
+      const code = new Uint8Array([OPERATOR_WAVEFORMS.indexOf(op.waveform)]);
+      if (op.waveform !== 'custom') return code;
+      const harmonics = Array.from({ length: HARMONIC_COUNT }, (_, i) => encodeFloat01(op.harmonics[i] ?? 0));
+      return concatBytes([code, new Uint8Array(harmonics)]);
+    })
+  );
+}
+
+function decodeWaveforms(bytes: Uint8Array, tracks: Partial<TrackData>[]) {
+  let pos = 0;
+  for (const track of tracks) {
+    track.operators = track.operators?.map(op => {
+      const waveform = OPERATOR_WAVEFORMS[bytes[pos++]] ?? 'sine';
+      if (waveform !== 'custom') return { ...op, waveform };
+      const harmonics = Array.from(bytes.subarray(pos, pos + HARMONIC_COUNT), decodeFloat01);
+      pos += HARMONIC_COUNT;
+      return { ...op, waveform, harmonics };
+    });
+  }
+}
+
+// Whether the track needs CHUNK_ROUTING: an algorithm beyond the 2-bit field, or an edited matrix
+function hasCustomRouting(track: TrackData): boolean {
+  const defaultRouting = encodeRouting({ ...track, algorithm: 'serial', modulationMatrix: createModulationMatrix() });
+  return !isLegacyAlgorithm(track.algorithm) || encodeRouting(track).some((byte, i) => i > 0 && byte !== defaultRouting[i]);
+}
+
+// Lockable parameters: id = index in this table, value stored as uint16 over [min, max]
+interface LockField {
+  read: (lock: ParameterLock) => number | undefined;
+  write: (lock: ParameterLock, value: number) => void;
+  min: number;
+  max: number;
+}
+
+const OPERATOR_LOCK_RANGES: [Exclude<keyof OperatorParams, 'waveform' | 'harmonics'>, number, number][] = [
+  ['ratio', 0, 16], // Same range as the ratio knob
+  ['level', 0, 1],
+  ['attack', 0, 0.1],
+  ['decay', 0, 1],
+  ['sustain', 0, 1],
+  ['release', 0, 1],
+  ['feedbackAmount', 0, 1],
+];
+
+const LOCK_FIELDS: LockField[] = [
+  ...[0, 1, 2, 3].flatMap(opIndex =>
+    OPERATOR_LOCK_RANGES.map(([param, min, max]): LockField => ({
+      read: lock => lock.operators?.[opIndex]?.[param],
+      write: (lock, value) => {
+        lock.operators = { ...lock.operators, [opIndex]: { ...lock.operators?.[opIndex], [param]: value } };
+      },
+      min,
+      max,
+    }))
+  ),
+  { read: lock => lock.lfo?.frequency, write: (lock, value) => { lock.lfo = { ...lock.lfo, frequency: value }; }, min: 0, max: 50 },
+  { read: lock => lock.lfo?.depth, write: (lock, value) => { lock.lfo = { ...lock.lfo, depth: value }; }, min: 0, max: 4 },
+  { read: lock => lock.pitchEnvelope?.attack, write: (lock, value) => { lock.pitchEnvelope = { ...lock.pitchEnvelope, attack: value }; }, min: 0, max: 0.1 },
+  { read: lock => lock.pitchEnvelope?.decay, write: (lock, value) => { lock.pitchEnvelope = { ...lock.pitchEnvelope, decay: value }; }, min: 0, max: 1 },
+  { read: lock => lock.pitchEnvelope?.depth, write: (lock, value) => { lock.pitchEnvelope = { ...lock.pitchEnvelope, depth: value }; }, min: 0, max: 2 },
+  {
+    // Original algorithms only, so that older links keep their scale
+    read: lock => (lock.algorithm === undefined || !isLegacyAlgorithm(lock.algorithm) ? undefined : encodeAlgorithm(lock.algorithm)),
+    write: (lock, value) => { lock.algorithm = decodeAlgorithm(Math.round(value)); },
+    min: 0,
+    max: LEGACY_ALGORITHM_COUNT - 1,
+  },
+  { read: lock => lock.noteLength, write: (lock, value) => { lock.noteLength = value; }, min: 0.1, max: 8 },
+  {
+    read: lock => (lock.algorithm === undefined || isLegacyAlgorithm(lock.algorithm) ? undefined : encodeAlgorithm(lock.algorithm)),
+    write: (lock, value) => { lock.algorithm = decodeAlgorithm(Math.round(value)); },
+    min: 0,
+    max: 255,
+  },
+  ...[0, 1, 2, 3].map(
+    (opIndex): LockField => ({
+      read: lock => lock.operators?.[opIndex]?.modIndex,
+      write: (lock, value) => {
+        lock.operators = { ...lock.operators, [opIndex]: { ...lock.operators?.[opIndex], modIndex: value } };
+      },
+      min: 0,
+      max: MAX_MOD_INDEX,
+    })
+  ),
+  ...[0, 1, 2, 3].map(
+    (opIndex): LockField => ({
+      read: lock => {
+        const waveform = lock.operators?.[opIndex]?.waveform;
+        return waveform === undefined ? undefined : OPERATOR_WAVEFORMS.indexOf(waveform);
+      },
+      write: (lock, value) => {
+        const waveform = OPERATOR_WAVEFORMS[Math.round(value)] ?? 'sine';
+        lock.operators = { ...lock.operators, [opIndex]: { ...lock.operators?.[opIndex], waveform } };
+      },
+      min: 0,
+      max: 255,
+    })
+  ),
+];
+
+// Encode the locks of one pattern: locked step count (1 byte) + per step:
+// step (1 byte), field count (1 byte), per field: id (1 byte) + value (2 bytes)
+function encodeLocks(locks: ParameterLocks): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let stepCount = 0;
+  for (const [step, lock] of Object.entries(locks)) {
+    const fields = LOCK_FIELDS.map((field, id) => ({ field, id, value: field.read(lock) })).filter(
+      ({ value }) => value !== undefined
+    );
+    if (fields.length === 0) continue;
+
+    stepCount++;
+    parts.push(new Uint8Array([Number(step), fields.length]));
+    for (const { field, id, value } of fields) {
+      const normalized = (Math.max(field.min, Math.min(field.max, value!)) - field.min) / (field.max - field.min);
+      parts.push(new Uint8Array([id]));
+      parts.push(encodeUint16(Math.round(normalized * 65535)));
+    }
+  }
+  return stepCount > 0 ? concatBytes([new Uint8Array([stepCount]), ...parts]) : new Uint8Array(0);
+}
+
+// Returns the decoded locks and the position after them
+function decodeLocks(bytes: Uint8Array, offset: number): [ParameterLocks, number] {
+  const locks: ParameterLocks = {};
+  const stepCount = bytes[offset] ?? 0;
+  let pos = offset + 1;
+  for (let i = 0; i < stepCount && pos + 2 <= bytes.length; i++) {
+    const step = bytes[pos];
+    const fieldCount = bytes[pos + 1];
+    pos += 2;
+
+    const lock: ParameterLock = {};
+    for (let j = 0; j < fieldCount; j++, pos += 3) {
+      const field = LOCK_FIELDS[bytes[pos]];
+      if (field) {
+        field.write(lock, (decodeUint16(bytes, pos + 1) / 65535) * (field.max - field.min) + field.min);
+      }
+    }
+    locks[step] = lock;
+  }
+  return [locks, pos];
+}
+
+// Merge per-step data, field by field, so several chunks can fill in the same StepTrig
+function mergeSteps<T extends Record<number, object>>(existing: T | undefined, data: T): T {
+  const merged: Record<number, object> = { ...existing };
+  Object.entries(data).forEach(([step, value]) => {
+    merged[Number(step)] = { ...merged[Number(step)], ...value };
+  });
+  return merged as T;
+}
+
+// Encode one sparse field of every pattern that has data: slot (1 byte) + track index (1 byte) + data.
+// `encode` returns an empty array when there is nothing to store.
+function encodeSparsePatternData(
+  tracks: TrackData[],
+  activePattern: number,
+  encode: (pattern: TrackPattern) => Uint8Array
+): Uint8Array {
+  const parts: Uint8Array[] = [];
+  tracks.forEach((track, trackIndex) => {
+    getPatternBank(track, activePattern).forEach((pattern, slot) => {
+      const data = encode(pattern);
+      if (data.length > 0) {
+        parts.push(new Uint8Array([slot, trackIndex]), data);
+      }
+    });
+  });
+  return concatBytes(parts);
+}
+
+// `decode` returns the decoded data and the position after it; `apply` stores it in the pattern
+// (the track itself for the active pattern)
+function decodeSparsePatternData<T>(
+  bytes: Uint8Array,
+  tracks: Partial<TrackData>[],
+  activePattern: number,
+  decode: (bytes: Uint8Array, offset: number) => [T, number],
+  apply: (pattern: Partial<TrackPattern>, data: T) => void
+) {
+  let pos = 0;
+  while (pos + 3 <= bytes.length) {
+    const slot = bytes[pos];
+    const track = tracks[bytes[pos + 1]];
+    const [data, next] = decode(bytes, pos + 2);
+    pos = next;
+
+    if (!track) continue;
+    if (slot === activePattern) {
+      apply(track, data);
+    } else if (track.patterns?.[slot]) {
+      apply(track.patterns[slot], data);
+    }
+  }
+}
+
+// Trig condition codes: 0 always, 1 fill, 2 not fill, 3 first, 4 not first, 0x80 | (B - 1) << 3 | (A - 1) for 'A:B'
+const NAMED_CONDITIONS: TrigCondition[] = ['always', 'fill', 'not fill', 'first', 'not first'];
+
+function encodeCondition(condition: TrigCondition): number {
+  const ratio = parseRatioCondition(condition);
+  if (ratio) {
+    return 0x80 | ((Math.min(8, ratio[1]) - 1) << 3) | (Math.min(8, ratio[0]) - 1);
+  }
+  return Math.max(0, NAMED_CONDITIONS.indexOf(condition));
+}
+
+function decodeCondition(code: number): TrigCondition {
+  if (code & 0x80) {
+    return `${(code & 0x07) + 1}:${((code >> 3) & 0x0f) + 1}`;
+  }
+  return NAMED_CONDITIONS[code] ?? 'always';
+}
+
+// Encode the trigs of one pattern: step count (1 byte) + per step: step (1 byte), probability (1 byte, 0-100), condition (1 byte)
+function encodeStepTrigs(trigs: StepTrigs): Uint8Array {
+  const entries = Object.entries(trigs).filter(
+    ([, trig]) => (trig.probability ?? 1) < 1 || (trig.condition ?? 'always') !== 'always'
+  );
+  if (entries.length === 0) return new Uint8Array(0);
+
+  return concatBytes([
+    new Uint8Array([entries.length]),
+    ...entries.map(([step, trig]) =>
+      new Uint8Array([
+        Number(step),
+        Math.round(Math.max(0, Math.min(1, trig.probability ?? 1)) * 100),
+        encodeCondition(trig.condition ?? 'always'),
+      ])
+    ),
+  ]);
+}
+
+function decodeStepTrigs(bytes: Uint8Array, offset: number): [StepTrigs, number] {
+  const trigs: StepTrigs = {};
+  const count = bytes[offset] ?? 0;
+  let pos = offset + 1;
+  for (let i = 0; i < count && pos + 3 <= bytes.length; i++, pos += 3) {
+    trigs[bytes[pos]] = {
+      probability: Math.min(100, bytes[pos + 1]) / 100,
+      condition: decodeCondition(bytes[pos + 2]),
+    };
+  }
+  return [trigs, pos];
+}
+
+// Ratchet ramp codes: 0 none, 1 up, 2 down
+const RAMP_CODES: RatchetRamp[] = ['none', 'up', 'down'];
+
+// Encode the ratchets of one pattern: step count (1 byte) + per step: step (1 byte), ramp << 4 | hits (1 byte)
+function encodeRatchets(trigs: StepTrigs): Uint8Array {
+  const entries = Object.entries(trigs).filter(([, trig]) => getRatchetCount(trig) > 1);
+  if (entries.length === 0) return new Uint8Array(0);
+
+  return concatBytes([
+    new Uint8Array([entries.length]),
+    ...entries.map(([step, trig]) =>
+      new Uint8Array([
+        Number(step),
+        (Math.max(0, RAMP_CODES.indexOf(trig.ratchetRamp ?? 'none')) << 4) | getRatchetCount(trig),
+      ])
+    ),
+  ]);
+}
+
+function decodeRatchets(bytes: Uint8Array, offset: number): [StepTrigs, number] {
+  const trigs: StepTrigs = {};
+  const count = bytes[offset] ?? 0;
+  let pos = offset + 1;
+  for (let i = 0; i < count && pos + 2 <= bytes.length; i++, pos += 2) {
+    trigs[bytes[pos]] = {
+      ratchet: getRatchetCount({ ratchet: bytes[pos + 1] & 0x0f }),
+      ratchetRamp: RAMP_CODES[bytes[pos + 1] >> 4] ?? 'none',
+    };
+  }
+  return [trigs, pos];
+}
+
+// Encode the micro-timing of one pattern: step count (1 byte) + per step: step (1 byte), offset (1 signed byte, percent of a step)
+function encodeNudges(pattern: TrackPattern): Uint8Array {
+  const entries: number[] = [];
+  pattern.nudgeMap.slice(0, pattern.patternLength).forEach((nudge, step) => {
+    const percent = Math.round(Math.max(-MAX_NUDGE, Math.min(MAX_NUDGE, nudge)) * 100);
+    if (percent !== 0) {
+      entries.push(step, percent & 0xff);
+    }
+  });
+  if (entries.length === 0) return new Uint8Array(0);
+
+  return new Uint8Array([entries.length / 2, ...entries]);
+}
+
+function decodeNudges(bytes: Uint8Array, offset: number): [Record<number, number>, number] {
+  const nudges: Record<number, number> = {};
+  const count = bytes[offset] ?? 0;
+  let pos = offset + 1;
+  for (let i = 0; i < count && pos + 2 <= bytes.length; i++, pos += 2) {
+    const percent = bytes[pos + 1] > 127 ? bytes[pos + 1] - 256 : bytes[pos + 1];
+    nudges[bytes[pos]] = Math.max(-MAX_NUDGE, Math.min(MAX_NUDGE, percent / 100));
+  }
+  return [nudges, pos];
+}
+
+// Encode single track
+function encodeTrack(track: TrackData): Uint8Array {
+  const parts: Uint8Array[] = [];
+
+  // Pattern (length, steps, velocity map, pitch map)
+  parts.push(encodePattern(getLivePattern(track)));
 
   // Frequency (2 bytes, 0-2000 Hz)
   parts.push(encodeUint16(Math.round(track.frequency * 10) % 65536));
@@ -156,8 +870,14 @@ function encodeTrack(track: TrackData): Uint8Array {
     (track.lfoExpanded ? 128 : 0);
   parts.push(new Uint8Array([flags]));
 
-  // More flags (1 byte): pitchEnvExpanded
-  const flags2 = (track.pitchEnvExpanded ? 1 : 0);
+  // More flags (1 byte): pitchEnvExpanded (bit 0), poly mode (bit 1), voice count - 1 (bits 2-4), choke group (bits 5-7)
+  const voiceBits = Math.max(0, Math.min(MAX_VOICES, track.voiceCount) - 1) & 0x07;
+  const chokeBits = Math.max(0, Math.min(CHOKE_GROUP_COUNT, track.chokeGroup)) & 0x07;
+  const flags2 =
+    (track.pitchEnvExpanded ? 1 : 0) |
+    (track.chokeMode === 'poly' ? 2 : 0) |
+    (voiceBits << 2) |
+    (chokeBits << 5);
   parts.push(new Uint8Array([flags2]));
 
   // LFO (2 bytes): frequency (0-50 Hz), depth (0-4)
@@ -170,7 +890,7 @@ function encodeTrack(track: TrackData): Uint8Array {
   parts.push(new Uint8Array([encodeFloatRange(track.pitchEnvelope.depth, 0, 2)]));
 
   // Algorithm (2 bits) + ducking params (6 bits for amount, 1 byte for release)
-  const algoBits = encodeAlgorithm(track.algorithm);
+  const algoBits = isLegacyAlgorithm(track.algorithm) ? encodeAlgorithm(track.algorithm) : 0;
   const duckingAmountBits = Math.round(track.duckingAmount * 63); // 6 bits
   parts.push(new Uint8Array([(algoBits << 6) | duckingAmountBits]));
   parts.push(new Uint8Array([encodeFloatRange(track.duckingRelease, 0.01, 1)]));
@@ -198,21 +918,13 @@ function encodeTrack(track: TrackData): Uint8Array {
   return result;
 }
 
-// Decode single track (returns partial track data without synth/gain nodes)
-function decodeTrack(bytes: Uint8Array, offset: number, trackId: number): Partial<TrackData> {
+// Decode single track storing `stepTotal` steps (returns partial track data without synth/gain nodes)
+function decodeTrack(bytes: Uint8Array, offset: number, trackId: number, stepTotal: number, patternLength: number): Partial<TrackData> {
   let pos = offset;
 
-  // Steps (8 bytes)
-  const steps = decodeSteps(bytes, pos);
-  pos += 8;
-
-  // Velocity map (32 bytes)
-  const velocityMap = decodeNibbleArray(bytes, pos, 64);
-  pos += 32;
-
-  // Pitch map (32 bytes)
-  const pitchMap = decodePitchMap(bytes, pos, 64);
-  pos += 32;
+  // Pattern (steps, velocity map, pitch map)
+  const { steps, velocityMap, pitchMap, nudgeMap } = decodePattern(bytes, pos, stepTotal, patternLength);
+  pos += patternSize(stepTotal);
 
   // Frequency (2 bytes)
   const frequency = decodeUint16(bytes, pos) / 10;
@@ -238,6 +950,9 @@ function decodeTrack(bytes: Uint8Array, offset: number, trackId: number): Partia
   const flags2 = bytes[pos];
   pos += 1;
   const pitchEnvExpanded = !!(flags2 & 1);
+  const chokeMode: ChokeMode = flags2 & 2 ? 'poly' : 'mono';
+  const voiceCount = ((flags2 >> 2) & 0x07) + 1;
+  const chokeGroup = (flags2 >> 5) & 0x07;
 
   // LFO (2 bytes)
   const lfoFrequency = decodeFloatRange(bytes[pos], 0, 50);
@@ -290,22 +1005,36 @@ function decodeTrack(bytes: Uint8Array, offset: number, trackId: number): Partia
       sustain,
       release,
       feedbackAmount,
+      modIndex: getLegacyModIndex({ level, ratio }, frequency), // Replaced by CHUNK_MOD_INDEX when present
+      waveform: 'sine' as const, // Replaced by CHUNK_WAVEFORMS when present
+      harmonics: createHarmonics(),
     });
   }
 
   return {
     id: trackId,
     steps,
+    patternLength,
+    patterns: createPatternBank(patternLength),
+    parameterLocks: {},
+    stepTrigs: {},
     velocityMap,
     pitchMap,
+    nudgeMap,
     frequency,
     noteLength,
+    chokeMode,
+    voiceCount,
+    chokeGroup,
+    groove: null,
+    midiNote: getDefaultMidiNote(trackId),
     lfoEnabled,
     pitchEnabled,
     duckingEnabled,
     isMuted,
     pitchControlVisible,
     velocityControlVisible,
+    nudgeControlVisible: false,
     operatorsExpanded,
     lfoExpanded,
     pitchEnvExpanded,
@@ -319,6 +1048,7 @@ function decodeTrack(bytes: Uint8Array, offset: number, trackId: number): Partia
       depth: pitchEnvelopeDepth,
     },
     algorithm,
+    modulationMatrix: createModulationMatrix(),
     duckingAmount,
     duckingRelease,
     operators,
@@ -326,24 +1056,69 @@ function decodeTrack(bytes: Uint8Array, offset: number, trackId: number): Partia
 }
 
 // Serialize all state to URL-safe string
-export function serializeState(tracks: TrackData[], bpm: number, stepCount: number, shuffle: number): string {
+export function serializeState(
+  tracks: TrackData[],
+  bpm: number,
+  stepCount: number,
+  shuffle: number,
+  { activePattern = 0, song = [], groove = createGroove(), ccMappings = [] }: ProjectOptions = {}
+): string {
   const parts: Uint8Array[] = [];
 
   // Version (1 char, not in binary)
   // BPM (2 bytes, 20-300)
   parts.push(encodeUint16(Math.round(bpm)));
 
-  // Step count (1 byte, 16/32/64)
-  parts.push(new Uint8Array([stepCount]));
+  // Step count (1 byte, 1-128)
+  parts.push(new Uint8Array([clampStepCount(stepCount)]));
 
   // Shuffle (1 byte, 0-1)
   parts.push(new Uint8Array([encodeFloat01(shuffle)]));
 
+  // Track count (1 byte)
+  parts.push(new Uint8Array([tracks.length]));
+
   // Encode each track
   for (const track of tracks) {
     parts.push(encodeTrack(track));
   }
 
+  // Extension chunks
+  parts.push(encodeChunk(CHUNK_NAMES, encodeNames(tracks)));
+  parts.push(encodeChunk(CHUNK_PATTERNS, encodePatternBank(tracks, activePattern)));
+  if (song.length > 0) {
+    parts.push(encodeChunk(CHUNK_SONG, encodeSong(song, tracks)));
+  }
+  const locks = encodeSparsePatternData(tracks, activePattern, pattern => encodeLocks(pattern.parameterLocks));
+  if (locks.length > 0) {
+    parts.push(encodeChunk(CHUNK_LOCKS, locks));
+  }
+  const trigs = encodeSparsePatternData(tracks, activePattern, pattern => encodeStepTrigs(pattern.stepTrigs));
+  if (trigs.length > 0) {
+    parts.push(encodeChunk(CHUNK_TRIGS, trigs));
+  }
+  const ratchets = encodeSparsePatternData(tracks, activePattern, pattern => encodeRatchets(pattern.stepTrigs));
+  if (ratchets.length > 0) {
+    parts.push(encodeChunk(CHUNK_RATCHETS, ratchets));
+  }
+  const nudges = encodeSparsePatternData(tracks, activePattern, encodeNudges);
+  if (nudges.length > 0) {
+    parts.push(encodeChunk(CHUNK_NUDGE, nudges));
+  }
+  if (groove.template !== 'none' || tracks.some(track => track.groove)) {
+    parts.push(encodeChunk(CHUNK_GROOVE, encodeGrooves(groove, tracks)));
+  }
+  if (ccMappings.length > 0) {
+    parts.push(encodeChunk(CHUNK_MIDI_MAP, encodeCcMappings(ccMappings, tracks)));
+  }
+  if (tracks.some(hasCustomRouting)) {
+    parts.push(encodeChunk(CHUNK_ROUTING, concatBytes(tracks.map(encodeRouting))));
+  }
+  parts.push(encodeChunk(CHUNK_MOD_INDEX, concatBytes(tracks.map(encodeModIndices))));
+  if (tracks.some(track => track.operators.some(op => op.waveform !== 'sine'))) {
+    parts.push(encodeChunk(CHUNK_WAVEFORMS, concatBytes(tracks.map(encodeWaveforms))));
+  }
+
   // Concatenate all
   const totalLength = parts.reduce((sum, arr) => sum + arr.length, 0);
   const allBytes = new Uint8Array(totalLength);
@@ -366,11 +1141,16 @@ export function deserializeState(encoded: string): {
   bpm: number;
   stepCount: number;
   shuffle: number;
+  activePattern: number;
+  song: SongSection[];
+  groove: Groove;
+  ccMappings: CcMapping[];
 } | null {
   try {
     // Check version
-    if (encoded[0] !== VERSION) {
-      console.error('Unsupported version:', encoded[0]);
+    const version = encoded[0];
+    if (version !== VERSION && version !== LEGACY_VERSION_1 && version !== LEGACY_VERSION_2) {
+      console.error('Unsupported version:', version);
       return null;
     }
 
@@ -395,23 +1175,96 @@ export function deserializeState(encoded: string): {
     pos += 2;
 
     // Step count (1 byte)
-    const stepCount = bytes[pos];
+    const stepCount = clampStepCount(bytes[pos]);
     pos += 1;
 
     // Shuffle (1 byte)
     const shuffle = decodeFloat01(bytes[pos]);
     pos += 1;
 
+    // Track count (1 byte, version 2+)
+    let trackCount = LEGACY_TRACK_COUNT;
+    if (version !== LEGACY_VERSION_1) {
+      trackCount = bytes[pos];
+      pos += 1;
+    }
+
+    if (trackCount < 1 || trackCount > MAX_TRACKS) {
+      console.error('Invalid track count:', trackCount);
+      return null;
+    }
+
     // Decode tracks
     const tracks: Partial<TrackData>[] = [];
-    for (let i = 0; i < 4; i++) {
-      const track = decodeTrack(bytes, pos, i);
-      tracks.push(track);
-      // Calculate next position (track size is fixed)
-      pos += 8 + 32 + 32 + 2 + 1 + 1 + 1 + 2 + 3 + 2 + 32; // 116 bytes per track
+    for (let i = 0; i < trackCount; i++) {
+      // Versions 1-2 store 64 steps and use the global step count as every track's length
+      let stepTotal = LEGACY_STEP_COUNT;
+      let patternLength = clampStepCount(stepCount);
+      if (version === VERSION) {
+        stepTotal = clampStepCount(bytes[pos]);
+        patternLength = stepTotal;
+        pos += 1;
+      }
+
+      if (bytes.length < pos + trackSize(stepTotal)) {
+        console.error('Invalid track data');
+        return null;
+      }
+
+      tracks.push(decodeTrack(bytes, pos, i, stepTotal, patternLength));
+      pos += trackSize(stepTotal);
+    }
+
+    // Extension chunks (unknown tags are skipped)
+    let activePattern = 0;
+    let song: SongSection[] = [];
+    let groove = createGroove();
+    let ccMappings: CcMapping[] = [];
+    while (pos + 3 <= bytes.length) {
+      const tag = bytes[pos];
+      const length = decodeUint16(bytes, pos + 1);
+      const payload = bytes.subarray(pos + 3, pos + 3 + length);
+      pos += 3 + length;
+
+      if (tag === CHUNK_NAMES) {
+        decodeNames(payload, tracks.length).forEach((name, i) => {
+          tracks[i].name = name;
+        });
+      } else if (tag === CHUNK_PATTERNS) {
+        activePattern = decodePatternBank(payload, tracks);
+      } else if (tag === CHUNK_SONG) {
+        song = decodeSong(payload);
+      } else if (tag === CHUNK_LOCKS) {
+        // Written after CHUNK_PATTERNS, so the active pattern is already known
+        decodeSparsePatternData(payload, tracks, activePattern, decodeLocks, (pattern, locks) => {
+          pattern.parameterLocks = locks;
+        });
+      } else if (tag === CHUNK_TRIGS) {
+        decodeSparsePatternData(payload, tracks, activePattern, decodeStepTrigs, (pattern, trigs) => {
+          pattern.stepTrigs = mergeSteps(pattern.stepTrigs, trigs);
+        });
+      } else if (tag === CHUNK_RATCHETS) {
+        decodeSparsePatternData(payload, tracks, activePattern, decodeRatchets, (pattern, trigs) => {
+          pattern.stepTrigs = mergeSteps(pattern.stepTrigs, trigs);
+        });
+      } else if (tag === CHUNK_NUDGE) {
+        decodeSparsePatternData(payload, tracks, activePattern, decodeNudges, (pattern, nudges) => {
+          pattern.nudgeMap = padToMaxSteps(pattern.nudgeMap, 0).map((nudge, step) => nudges[step] ?? nudge);
+        });
+      } else if (tag === CHUNK_GROOVE) {
+        groove = decodeGrooves(payload, tracks);
+      } else if (tag === CHUNK_MIDI_MAP) {
+        ccMappings = decodeCcMappings(payload, tracks.length);
+      } else if (tag === CHUNK_ROUTING) {
+        decodeRouting(payload, tracks);
+      } else if (tag === CHUNK_MOD_INDEX) {
+        decodeModIndices(payload, tracks);
+      } else if (tag === CHUNK_WAVEFORMS) {
+        decodeWaveforms(payload, tracks);
+      }
     }
 
-    return { tracks, bpm, stepCount, shuffle };
+    return { tracks, bpm, stepCount, shuffle, activePattern, song, groove, ccMappings };
   } catch (error) {
     console.error('Failed to deserialize state:', error);
     return null;
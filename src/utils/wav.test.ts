@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { encodeWav } from './wav';
+
+function readString(view: DataView, offset: number, length: number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+}
+
+function readInt24(view: DataView, offset: number): number {
+  const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+  return value & 0x800000 ? value - 0x1000000 : value;
+}
+
+describe('WAV Encoding', () => {
+  it('should write a valid RIFF/WAVE header', () => {
+    const left = new Float32Array([0, 0.5, -0.5, 1]);
+    const right = new Float32Array([0, -0.5, 0.5, -1]);
+    const buffer = encodeWav([left, right], 44100, 16);
+    const view = new DataView(buffer);
+
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2); // Channels
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4); // Byte rate
+    expect(view.getUint16(32, true)).toBe(4); // Block align
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(4 * 4);
+    expect(view.getUint32(4, true)).toBe(buffer.byteLength - 8);
+  });
+
+  it('should interleave and quantize 16-bit samples', () => {
+    const left = new Float32Array([0, 1, -1]);
+    const right = new Float32Array([0.5, -0.5, 0]);
+    const view = new DataView(encodeWav([left, right], 48000, 16));
+
+    expect(view.getInt16(44, true)).toBe(0);
+    expect(view.getInt16(46, true)).toBe(16384);
+    expect(view.getInt16(48, true)).toBe(32767);
+    expect(view.getInt16(50, true)).toBe(-16384);
+    expect(view.getInt16(52, true)).toBe(-32768);
+    expect(view.getInt16(54, true)).toBe(0);
+  });
+
+  it('should quantize 24-bit samples', () => {
+    const mono = new Float32Array([1, -1, 0.25]);
+    const buffer = encodeWav([mono], 48000, 24);
+    const view = new DataView(buffer);
+
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(buffer.byteLength).toBe(44 + 9);
+    expect(readInt24(view, 44)).toBe(8388607);
+    expect(readInt24(view, 47)).toBe(-8388608);
+    expect(readInt24(view, 50)).toBe(2097152);
+  });
+
+  it('should clip samples outside -1.0 to 1.0', () => {
+    const mono = new Float32Array([2, -3]);
+    const view = new DataView(encodeWav([mono], 44100, 16));
+
+    expect(view.getInt16(44, true)).toBe(32767);
+    expect(view.getInt16(46, true)).toBe(-32768);
+  });
+});
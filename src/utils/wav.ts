@@ -0,0 +1,83 @@
+/**
+ * WAV (RIFF PCM) Encoding
+ *
+ * Writes interleaved little-endian integer PCM at 16 or 24 bits per sample.
+ * Float samples are clipped to -1.0..1.0 before quantization.
+ *
+ * Layout: RIFF header (12 bytes) + fmt chunk (24 bytes) + data chunk header (8 bytes) + samples
+ */
+
+export type WavBitDepth = 16 | 24;
+
+const HEADER_SIZE = 44;
+
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+// Convert a float sample (-1.0 to 1.0) to a signed integer of the given bit depth
+function quantizeSample(sample: number, bitDepth: WavBitDepth): number {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  const maxValue = 2 ** (bitDepth - 1);
+  return clamped < 0 ? Math.round(clamped * maxValue) : Math.round(clamped * (maxValue - 1));
+}
+
+// Encode channel data (one Float32Array per channel, equal lengths) into a WAV file
+export function encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16): ArrayBuffer {
+  const numChannels = channels.length;
+  const numFrames = numChannels > 0 ? channels[0].length : 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = numFrames * blockAlign;
+
+  const buffer = new ArrayBuffer(HEADER_SIZE + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk (PCM)
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // Chunk size
+  view.setUint16(20, 1, true); // Audio format: 1 = PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = HEADER_SIZE;
+  for (let frame = 0; frame < numFrames; frame++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const value = quantizeSample(channels[ch][frame], bitDepth);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        // 24-bit little-endian (two's complement)
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+// Encode a rendered AudioBuffer into a WAV Blob
+export function audioBufferToWav(audioBuffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    channels.push(audioBuffer.getChannelData(ch));
+  }
+  return new Blob([encodeWav(channels, audioBuffer.sampleRate, bitDepth)], { type: 'audio/wav' });
+}
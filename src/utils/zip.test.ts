@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { createZip, crc32 } from './zip';
+
+describe('ZIP Archive Writer', () => {
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it('should store files with headers pointing at their data', () => {
+    const first = new Uint8Array([1, 2, 3, 4]);
+    const second = new Uint8Array([5, 6]);
+    const zip = createZip([
+      { name: 'master.wav', data: first },
+      { name: 'stems/kick.wav', data: second },
+    ]);
+    const view = new DataView(zip.buffer);
+
+    // First local header
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0); // Stored
+    expect(view.getUint32(14, true)).toBe(crc32(first));
+    expect(view.getUint32(18, true)).toBe(4);
+    expect(view.getUint16(26, true)).toBe('master.wav'.length);
+    expect(Array.from(zip.slice(30 + 10, 30 + 10 + 4))).toEqual([1, 2, 3, 4]);
+
+    // End of central directory
+    const eocd = zip.length - 22;
+    expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+    expect(view.getUint16(eocd + 10, true)).toBe(2);
+
+    // Central directory entries point back at local headers
+    const centralStart = view.getUint32(eocd + 16, true);
+    expect(view.getUint32(centralStart, true)).toBe(0x02014b50);
+    expect(view.getUint32(centralStart + 42, true)).toBe(0);
+    const secondEntry = centralStart + 46 + 'master.wav'.length;
+    const secondOffset = view.getUint32(secondEntry + 42, true);
+    expect(secondOffset).toBe(30 + 10 + 4);
+    expect(view.getUint32(secondOffset, true)).toBe(0x04034b50);
+    expect(view.getUint32(eocd + 12, true)).toBe(eocd - centralStart);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Minimal ZIP Archive Writer
+ *
+ * Stores files uncompressed (method 0), which is all we need for bundling WAV files:
+ * PCM audio barely compresses and browsers/OSes open stored archives natively.
+ *
+ * Layout per file: local header (30 bytes + name) + data
+ * Followed by: central directory (46 bytes + name per file) + end of central directory (22 bytes)
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS date/time format used by ZIP headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modified);
+
+  const files = entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+  }));
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+
+  // Local file headers + data
+  let pos = 0;
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(pos);
+    view.setUint32(pos, 0x04034b50, true); // Signature
+    view.setUint16(pos + 4, 20, true); // Version needed
+    view.setUint16(pos + 6, 0x0800, true); // Flags: UTF-8 names
+    view.setUint16(pos + 8, 0, true); // Method: stored
+    view.setUint16(pos + 10, dos.time, true);
+    view.setUint16(pos + 12, dos.date, true);
+    view.setUint32(pos + 14, file.crc, true);
+    view.setUint32(pos + 18, file.data.length, true); // Compressed size
+    view.setUint32(pos + 22, file.data.length, true); // Uncompressed size
+    view.setUint16(pos + 26, file.name.length, true);
+    view.setUint16(pos + 28, 0, true); // Extra field length
+    output.set(file.name, pos + 30);
+    output.set(file.data, pos + 30 + file.name.length);
+    pos += 30 + file.name.length + file.data.length;
+  }
+
+  // Central directory
+  const centralStart = pos;
+  files.forEach((file, i) => {
+    view.setUint32(pos, 0x02014b50, true); // Signature
+    view.setUint16(pos + 4, 20, true); // Version made by
+    view.setUint16(pos + 6, 20, true); // Version needed
+    view.setUint16(pos + 8, 0x0800, true); // Flags: UTF-8 names
+    view.setUint16(pos + 10, 0, true); // Method: stored
+    view.setUint16(pos + 12, dos.time, true);
+    view.setUint16(pos + 14, dos.date, true);
+    view.setUint32(pos + 16, file.crc, true);
+    view.setUint32(pos + 20, file.data.length, true);
+    view.setUint32(pos + 24, file.data.length, true);
+    view.setUint16(pos + 28, file.name.length, true);
+    // Extra length, comment length, disk number, internal/external attributes are all 0
+    view.setUint32(pos + 42, offsets[i], true); // Local header offset
+    output.set(file.name, pos + 46);
+    pos += 46 + file.name.length;
+  });
+
+  // End of central directory
+  view.setUint32(pos, 0x06054b50, true);
+  view.setUint16(pos + 8, files.length, true); // Entries on this disk
+  view.setUint16(pos + 10, files.length, true); // Total entries
+  view.setUint32(pos + 12, centralSize, true);
+  view.setUint32(pos + 16, centralStart, true);
+
+  return output;
+}